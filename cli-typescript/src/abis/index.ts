@@ -848,3 +848,324 @@ export const MagicDropTokenImplRegistryAbis = {
     stateMutability: 'view',
   },
 } as const;
+
+export const SafeAbis = {
+  nonce: {
+    type: 'function',
+    name: 'nonce',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  multiSend: {
+    type: 'function',
+    name: 'multiSend',
+    inputs: [{ name: 'transactions', type: 'bytes', internalType: 'bytes' }],
+    outputs: [],
+    stateMutability: 'payable',
+  },
+} as const;
+
+// custom errors of ErrorsAndEvents, plus the Cosignable, AuthorizedMinterControl
+// and Ownable errors shared by every MagicDrop token
+const MAGIC_DROP_ERRORS_ABI = [
+  { type: 'error', name: 'CannotIncreaseMaxMintableSupply', inputs: [] },
+  { type: 'error', name: 'GlobalWalletLimitOverflow', inputs: [] },
+  { type: 'error', name: 'InsufficientStageTimeGap', inputs: [] },
+  { type: 'error', name: 'InsufficientBalance', inputs: [] },
+  { type: 'error', name: 'InvalidProof', inputs: [] },
+  { type: 'error', name: 'InvalidStage', inputs: [] },
+  { type: 'error', name: 'InvalidStageArgsLength', inputs: [] },
+  { type: 'error', name: 'InvalidStartAndEndTimestamp', inputs: [] },
+  { type: 'error', name: 'NoSupplyLeft', inputs: [] },
+  { type: 'error', name: 'NotEnoughValue', inputs: [] },
+  { type: 'error', name: 'NotMintable', inputs: [] },
+  { type: 'error', name: 'Mintable', inputs: [] },
+  { type: 'error', name: 'StageSupplyExceeded', inputs: [] },
+  { type: 'error', name: 'TransferFailed', inputs: [] },
+  { type: 'error', name: 'WalletGlobalLimitExceeded', inputs: [] },
+  { type: 'error', name: 'WalletStageLimitExceeded', inputs: [] },
+  { type: 'error', name: 'WithdrawFailed', inputs: [] },
+  { type: 'error', name: 'WrongMintCurrency', inputs: [] },
+  { type: 'error', name: 'NotSupported', inputs: [] },
+  { type: 'error', name: 'NewSupplyLessThanTotalSupply', inputs: [] },
+  { type: 'error', name: 'NotTransferable', inputs: [] },
+  { type: 'error', name: 'InitialOwnerCannotBeZero', inputs: [] },
+  { type: 'error', name: 'ContractAlreadySetup', inputs: [] },
+  { type: 'error', name: 'TransferableAlreadySet', inputs: [] },
+  { type: 'error', name: 'CosignerNotSet', inputs: [] },
+  { type: 'error', name: 'InvalidCosignSignature', inputs: [] },
+  { type: 'error', name: 'TimestampExpired', inputs: [] },
+  { type: 'error', name: 'NotAuthorized', inputs: [] },
+  { type: 'error', name: 'Unauthorized', inputs: [] },
+] as const;
+
+// ERC721MErrorsAndEvents
+export const ERC721M_ERRORS_ABI = MAGIC_DROP_ERRORS_ABI;
+
+// ERC1155MErrorsAndEvents
+export const ERC1155M_ERRORS_ABI = [
+  ...MAGIC_DROP_ERRORS_ABI,
+  { type: 'error', name: 'InvalidLimitArgsLength', inputs: [] },
+  { type: 'error', name: 'InvalidTokenId', inputs: [] },
+] as const;
+
+// view functions shared by ERC721M and ERC1155M, read by the status command
+export const MagicDropReadAbis = {
+  name: {
+    type: 'function',
+    name: 'name',
+    inputs: [],
+    outputs: [{ name: '', type: 'string', internalType: 'string' }],
+    stateMutability: 'view',
+  },
+  owner: {
+    type: 'function',
+    name: 'owner',
+    inputs: [],
+    outputs: [{ name: '', type: 'address', internalType: 'address' }],
+    stateMutability: 'view',
+  },
+  getNumberStages: {
+    type: 'function',
+    name: 'getNumberStages',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  getCosigner: {
+    type: 'function',
+    name: 'getCosigner',
+    inputs: [],
+    outputs: [{ name: '', type: 'address', internalType: 'address' }],
+    stateMutability: 'view',
+  },
+  getTimestampExpirySeconds: {
+    type: 'function',
+    name: 'getTimestampExpirySeconds',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  getMintable: {
+    type: 'function',
+    name: 'getMintable',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'view',
+  },
+  getMintFee: {
+    type: 'function',
+    name: 'getMintFee',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  getMintCurrency: {
+    type: 'function',
+    name: 'getMintCurrency',
+    inputs: [],
+    outputs: [{ name: '', type: 'address', internalType: 'address' }],
+    stateMutability: 'view',
+  },
+  isTransferable: {
+    type: 'function',
+    name: 'isTransferable',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'view',
+  },
+  isSetupLocked: {
+    type: 'function',
+    name: 'isSetupLocked',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'view',
+  },
+  getTransferValidator: {
+    type: 'function',
+    name: 'getTransferValidator',
+    inputs: [],
+    outputs: [{ name: 'validator', type: 'address', internalType: 'address' }],
+    stateMutability: 'view',
+  },
+  isAuthorizedMinter: {
+    type: 'function',
+    name: 'isAuthorizedMinter',
+    inputs: [{ name: 'minter', type: 'address', internalType: 'address' }],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+    stateMutability: 'view',
+  },
+  AuthorizedMinterAdded: {
+    type: 'event',
+    name: 'AuthorizedMinterAdded',
+    inputs: [{ name: 'minter', type: 'address', indexed: true }],
+  },
+  AuthorizedMinterRemoved: {
+    type: 'event',
+    name: 'AuthorizedMinterRemoved',
+    inputs: [{ name: 'minter', type: 'address', indexed: true }],
+  },
+} as const;
+
+export const ERC721MReadAbis = {
+  getStageInfo: {
+    type: 'function',
+    name: 'getStageInfo',
+    inputs: [{ name: 'index', type: 'uint256', internalType: 'uint256' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        internalType: 'struct MintStageInfo',
+        components: [
+          { name: 'price', type: 'uint80', internalType: 'uint80' },
+          { name: 'walletLimit', type: 'uint32', internalType: 'uint32' },
+          { name: 'merkleRoot', type: 'bytes32', internalType: 'bytes32' },
+          { name: 'maxStageSupply', type: 'uint24', internalType: 'uint24' },
+          {
+            name: 'startTimeUnixSeconds',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'endTimeUnixSeconds',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+        ],
+      },
+      { name: 'walletMinted', type: 'uint32', internalType: 'uint32' },
+      { name: 'stageMinted', type: 'uint256', internalType: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  getMaxMintableSupply: {
+    type: 'function',
+    name: 'getMaxMintableSupply',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  getGlobalWalletLimit: {
+    type: 'function',
+    name: 'getGlobalWalletLimit',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  totalSupply: {
+    type: 'function',
+    name: 'totalSupply',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+} as const;
+
+export const ERC1155MReadAbis = {
+  getStageInfo: {
+    type: 'function',
+    name: 'getStageInfo',
+    inputs: [{ name: 'stage', type: 'uint256', internalType: 'uint256' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        internalType: 'struct MintStageInfo1155',
+        components: [
+          { name: 'price', type: 'uint80[]', internalType: 'uint80[]' },
+          { name: 'walletLimit', type: 'uint32[]', internalType: 'uint32[]' },
+          { name: 'merkleRoot', type: 'bytes32[]', internalType: 'bytes32[]' },
+          {
+            name: 'maxStageSupply',
+            type: 'uint24[]',
+            internalType: 'uint24[]',
+          },
+          {
+            name: 'startTimeUnixSeconds',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+          {
+            name: 'endTimeUnixSeconds',
+            type: 'uint256',
+            internalType: 'uint256',
+          },
+        ],
+      },
+      { name: 'walletMinted', type: 'uint256[]', internalType: 'uint256[]' },
+      { name: 'stageMinted', type: 'uint256[]', internalType: 'uint256[]' },
+    ],
+    stateMutability: 'view',
+  },
+  getMaxMintableSupply: {
+    type: 'function',
+    name: 'getMaxMintableSupply',
+    inputs: [{ name: 'tokenId', type: 'uint256', internalType: 'uint256' }],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  getGlobalWalletLimit: {
+    type: 'function',
+    name: 'getGlobalWalletLimit',
+    inputs: [{ name: 'tokenId', type: 'uint256', internalType: 'uint256' }],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+  totalSupply: {
+    type: 'function',
+    name: 'totalSupply',
+    inputs: [{ name: 'tokenId', type: 'uint256', internalType: 'uint256' }],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+    stateMutability: 'view',
+  },
+} as const;
+
+// getCollectionSecurityPolicy, truncated to the fields before the list ID
+export const GET_COLLECTION_SECURITY_POLICY_ABI = {
+  type: 'function',
+  name: 'getCollectionSecurityPolicy',
+  inputs: [{ name: 'collection', type: 'address', internalType: 'address' }],
+  outputs: [
+    {
+      name: '',
+      type: 'tuple',
+      internalType: 'struct CollectionSecurityPolicyV3',
+      components: [
+        {
+          name: 'disableAuthorizationMode',
+          type: 'bool',
+          internalType: 'bool',
+        },
+        {
+          name: 'authorizersCannotSetWildcardOperators',
+          type: 'bool',
+          internalType: 'bool',
+        },
+        { name: 'transferSecurityLevel', type: 'uint8', internalType: 'uint8' },
+        { name: 'listId', type: 'uint120', internalType: 'uint120' },
+      ],
+    },
+  ],
+  stateMutability: 'view',
+} as const;
+
+// Transfer Validator V5 (rulesets, uint48 list IDs)
+export const GET_COLLECTION_SECURITY_POLICY_ABI_V5 = {
+  type: 'function',
+  name: 'getCollectionSecurityPolicy',
+  inputs: [{ name: 'collection', type: 'address', internalType: 'address' }],
+  outputs: [
+    {
+      name: '',
+      type: 'tuple',
+      internalType: 'struct CollectionSecurityPolicy',
+      components: [
+        { name: 'rulesetId', type: 'uint8', internalType: 'uint8' },
+        { name: 'listId', type: 'uint48', internalType: 'uint48' },
+      ],
+    },
+  ],
+  stateMutability: 'view',
+} as const;
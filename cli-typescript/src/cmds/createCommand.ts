@@ -1,24 +1,37 @@
 import { Command } from 'commander';
 import {
   getConfigFileOption,
+  getDryRunOption,
   getEnvOption,
+  getFromOption,
   getSetupContractOption,
   getSetupWalletOption,
+  getSignerOption,
   getStagesFileOption,
   getTokenStandardOption,
   getTotalTokensOption,
+  getUnsignedOption,
 } from '../utils/cmdOptions';
 import { EvmPlatform } from '../utils/evmUtils';
 import deployAction from '../utils/cmdActions/deployAction';
 import { setBaseDir } from '../utils/setters';
 import { showError } from '../utils/display';
-import { supportedChainNames, TOKEN_STANDARD } from '../utils/constants';
+import {
+  SIGNER_ENV,
+  SIGNER_TYPE,
+  supportedChainNames,
+  DRY_RUN_ENV,
+  TOKEN_STANDARD,
+  UNSIGNED_ENV,
+  UNSIGNED_FROM_ENV,
+} from '../utils/constants';
 import newProjectAction from '../utils/cmdActions/newProjectAction';
 import {
   checkSignerBalanceCmd,
   createNewWalletCmd,
   freezeThawContractCmd,
   getConfigCmd,
+  getStatusCmd,
   getWalletInfoCmd,
   initContractCmd,
   manageAuthorizedMintersCmd,
@@ -37,10 +50,12 @@ import {
   withdrawContractBalanceCmd,
 } from './general';
 import listProjectsAction from '../utils/cmdActions/listProjectsAction';
+import broadcastAction from '../utils/cmdActions/broadcastAction';
 import { getProjectStore } from '../utils/fileUtils';
 import fillProjectConfigAction from '../utils/cmdActions/fillProjectConfigAction';
 import { authenticate } from '../utils/auth';
 import { getCollectionDir } from '../utils/getters';
+import { getSignerConfig } from '../utils/signers';
 
 export const getNewProjectCmdDescription = (defaultInfo?: string) => {
   defaultInfo =
@@ -55,16 +70,36 @@ export const getNewProjectCmdDescription = (defaultInfo?: string) => {
   `;
 };
 
-const presets = async (cliCmd: string) => {
+// subcommands that only read or send already signed transactions
+const SIGNERLESS_SUBCOMMANDS = ['broadcast', 'status'];
+
+const presets = async (actionCommand: Command) => {
   try {
     console.log('Starting prestart tasks...');
 
-    console.log('Authenticating...');
-    await authenticate();
-    console.log('Authentication successful.');
+    // set cmd name, signer backend, unsigned and dry run mode globally
+    process.env.MAGICDROP_CLI_CMD = actionCommand.name();
+    const { signer, unsigned, from, dryRun } = actionCommand.opts<{
+      signer?: SIGNER_TYPE;
+      unsigned?: string | boolean;
+      from?: string;
+      dryRun?: boolean;
+    }>();
+    if (signer) process.env[SIGNER_ENV] = signer;
+    if (unsigned) process.env[UNSIGNED_ENV] = String(unsigned);
+    if (from) process.env[UNSIGNED_FROM_ENV] = from;
+    if (dryRun) process.env[DRY_RUN_ENV] = 'true';
 
-    // set cmd name globally
-    process.env.MAGICDROP_CLI_CMD = cliCmd;
+    // only the Turnkey backend needs a Magic Eden login, and only to send
+    if (
+      !unsigned &&
+      !SIGNERLESS_SUBCOMMANDS.includes(actionCommand.name()) &&
+      getSignerConfig(actionCommand.args[0]).type === SIGNER_TYPE.TURNKEY
+    ) {
+      console.log('Authenticating...');
+      await authenticate();
+      console.log('Authentication successful.');
+    }
 
     setBaseDir();
   } catch (error: any) {
@@ -73,7 +108,21 @@ const presets = async (cliCmd: string) => {
   }
 };
 
-const SUBCOMMAND_EXCLUDE_LIST = ['new', 'list'];
+const SUBCOMMAND_EXCLUDE_LIST = ['new', 'list', 'broadcast'];
+
+// subcommands that never build a transaction, so --unsigned and --dry-run do
+// not apply
+const READ_ONLY_SUBCOMMANDS = [
+  'new',
+  'list',
+  'configure-project',
+  'create-wallet',
+  'get-wallet-info',
+  'get-config',
+  'check-signer-balance',
+  'status',
+  'broadcast',
+];
 
 export const createEvmCommand = ({
   platform,
@@ -89,7 +138,7 @@ export const createEvmCommand = ({
 
   newCmd.hook('preAction', async (_, actionCommand) => {
     try {
-      await presets(actionCommand.name());
+      await presets(actionCommand);
     } catch (error: any) {
       showError({ text: `setup failed - ${error.message}` });
     }
@@ -202,6 +251,13 @@ export const createEvmCommand = ({
       },
     );
 
+  newCmd
+    .command('broadcast <file>')
+    .description(
+      'Sends signed transactions from a file exported with --unsigned, in order',
+    )
+    .action(async (file: string) => await broadcastAction(platform, file));
+
   newCmd.addCommand(createNewWalletCmd());
   newCmd.addCommand(initContractCmd());
   newCmd.addCommand(setUriCmd());
@@ -222,6 +278,19 @@ export const createEvmCommand = ({
   newCmd.addCommand(transferSignerBalanceCmd());
   newCmd.addCommand(getWalletInfoCmd());
   newCmd.addCommand(getConfigCmd());
+  newCmd.addCommand(getStatusCmd());
+
+  newCmd.commands
+    .filter((cmd) => !SIGNERLESS_SUBCOMMANDS.includes(cmd.name()))
+    .forEach((cmd) => cmd.addOption(getSignerOption()));
+  newCmd.commands
+    .filter((cmd) => !READ_ONLY_SUBCOMMANDS.includes(cmd.name()))
+    .forEach((cmd) =>
+      cmd
+        .addOption(getUnsignedOption())
+        .addOption(getFromOption())
+        .addOption(getDryRunOption()),
+    );
 
   return newCmd;
 };
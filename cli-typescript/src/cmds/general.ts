@@ -6,6 +6,7 @@ import {
   getGasLimitOption,
   getGlobalWalletLimitOption,
   getIsMintableOption,
+  getJsonOption,
   getMaxMintableSupplyOption,
   getMintFeeOption,
   getMinterActionOption,
@@ -39,6 +40,7 @@ import { transferSignerBalanceAction } from '../utils/cmdActions/transferSignerB
 import getWalletInfoAction from '../utils/cmdActions/getWalletInfoAction';
 import getProjectConfigAction from '../utils/cmdActions/getProjectConfigAction';
 import { setMintFeeAction } from '../utils/cmdActions/setMintFeeAction';
+import getCollectionStatusAction from '../utils/cmdActions/getCollectionStatusAction';
 
 export const createNewWalletCmd = () =>
   new Command('create-wallet')
@@ -192,6 +194,15 @@ export const getConfigCmd = () =>
     )
     .action(getProjectConfigAction);
 
+export const getStatusCmd = () =>
+  new Command('status')
+    .command('status <symbol>')
+    .description(
+      'Read the on-chain state of a deployed collection: stages, supply, limits, cosigner, fees, transfer settings, balance and authorized minters.',
+    )
+    .addOption(getJsonOption())
+    .action(getCollectionStatusAction);
+
 export const checkSignerBalanceCmd = () =>
   new Command('check-signer-balance')
     .command('check-signer-balance <symbol>')
@@ -19,6 +19,9 @@ import {
   isTransferValidatorV5,
 } from './getters';
 import {
+  DEFAULT_GAS_LIMIT,
+  DRY_RUN_ENV,
+  GAS_ESTIMATE_BUFFER_PERCENT,
   ICREATOR_TOKEN_INTERFACE_ID,
   rpcUrls,
   SUPPORTED_CHAINS,
@@ -37,17 +40,30 @@ import {
   SUPPORTS_INTERFACE_ABI,
 } from '../abis';
 import { printTransactionHash, showText } from './display';
-import { getMETurnkeyServiceClient } from './turnkey';
+import { ProjectSigner } from './types';
+import {
+  exportUnsignedTransaction,
+  getUnsignedExportPath,
+  isExportedTransaction,
+  trackExportedTransaction,
+} from './unsignedTransactions';
+import { describeCall, getRevertReason } from './simulation';
 
 export class ContractManager {
   public client: PublicClient;
   public rpcUrl: string;
   public chain: Chain;
+  // set in --unsigned mode, transactions are written here instead of sent
+  public unsignedExportPath?: string;
+  // set in --dry-run mode, transactions are simulated instead of sent
+  public dryRun: boolean;
+  private simulatedCount = 0;
 
   constructor(
     public chainId: SUPPORTED_CHAINS,
     public signer: Hex,
     public symbol: string,
+    public projectSigner: ProjectSigner,
   ) {
     this.symbol = this.symbol.toLowerCase();
     this.rpcUrl = rpcUrls[this.chainId];
@@ -66,6 +82,8 @@ export class ContractManager {
     }
 
     this.signer = signer;
+    this.unsignedExportPath = getUnsignedExportPath(this.symbol);
+    this.dryRun = process.env[DRY_RUN_ENV] === 'true';
   }
 
   public async getDeploymentFee(
@@ -103,30 +121,157 @@ export class ContractManager {
   }
 
   /**
-   * Sends a transaction using METurnkeyServiceClient for signing.
+   * Sends a transaction through the project signer backend. In --dry-run and
+   * --unsigned mode nothing is sent and a placeholder hash is returned.
    */
   public async sendTransaction({
     to,
     data,
     value = BigInt(0),
-    gasLimit = BigInt(3_000_000),
+    gasLimit,
   }: {
     to: Hex;
     data: Hex;
     value?: bigint;
     gasLimit?: bigint;
   }): Promise<Hex> {
-    const meTurnkeyServiceClient = await getMETurnkeyServiceClient();
-    return await meTurnkeyServiceClient.sendTransaction(this.symbol, {
+    if (this.dryRun) {
+      return await this.simulateTransaction({ to, data, value });
+    }
+
+    if (this.unsignedExportPath) {
+      return await this.exportTransaction({ to, data, value, gasLimit });
+    }
+
+    return await this.projectSigner.sendTransaction({
       to,
       data,
       value,
-      gasLimit,
+      gasLimit: gasLimit ?? BigInt(DEFAULT_GAS_LIMIT),
       chainId: this.chainId,
     });
   }
 
-  public async waitForTransactionReceipt(txHash: Hex) {
+  /**
+   * Estimates the gas of a call from the signer, plus
+   * GAS_ESTIMATE_BUFFER_PERCENT.
+   * @throws Error with the decoded revert reason when the call would fail.
+   */
+  public async estimateGasLimit({
+    to,
+    data,
+    value = BigInt(0),
+  }: {
+    to: Hex;
+    data: Hex;
+    value?: bigint;
+  }): Promise<bigint> {
+    try {
+      const estimatedGas = await this.client.estimateGas({
+        account: this.signer,
+        to,
+        data,
+        value,
+      });
+
+      return (estimatedGas * BigInt(GAS_ESTIMATE_BUFFER_PERCENT)) / BigInt(100);
+    } catch (error: unknown) {
+      throw new Error(`Transaction would fail: ${getRevertReason(error)}`);
+    }
+  }
+
+  /**
+   * Runs a transaction with eth_call and estimateGas from the signer and
+   * prints the call it makes.
+   * @throws Error with the decoded revert reason when the call would fail.
+   */
+  private async simulateTransaction({
+    to,
+    data,
+    value,
+  }: {
+    to: Hex;
+    data: Hex;
+    value: bigint;
+  }): Promise<Hex> {
+    showText(
+      `Dry run: ${describeCall(this.chainId, to, data, value)}`,
+      '',
+      false,
+      false,
+    );
+
+    try {
+      await this.client.call({ account: this.signer, to, data, value });
+    } catch (error: unknown) {
+      throw new Error(`Dry run failed: ${getRevertReason(error)}`);
+    }
+    const gasLimit = await this.estimateGasLimit({ to, data, value });
+
+    showText(
+      `Dry run succeeded, suggested gas limit ${gasLimit}`,
+      '',
+      false,
+      false,
+    );
+    return trackExportedTransaction(
+      `dry-run:${this.symbol}#${(this.simulatedCount += 1)}`,
+    );
+  }
+
+  /**
+   * Writes a transaction to the --unsigned export file. An explicit `gasLimit`
+   * wins, then the estimate, then DEFAULT_GAS_LIMIT when the estimate fails,
+   * e.g. because an earlier exported transaction has not been sent yet.
+   */
+  private async exportTransaction({
+    to,
+    data,
+    value,
+    gasLimit,
+  }: {
+    to: Hex;
+    data: Hex;
+    value: bigint;
+    gasLimit?: bigint;
+  }): Promise<Hex> {
+    let estimatedGasLimit: bigint | undefined;
+    if (gasLimit === undefined) {
+      try {
+        estimatedGasLimit = await this.estimateGasLimit({ to, data, value });
+      } catch {
+        estimatedGasLimit = undefined;
+      }
+    }
+
+    const filePath = this.unsignedExportPath as string;
+    const txHash = exportUnsignedTransaction(filePath, this.symbol, {
+      chainId: this.chainId,
+      from: this.signer,
+      to,
+      data,
+      value: value.toString(),
+      gasLimit: (
+        gasLimit ??
+        estimatedGasLimit ??
+        BigInt(DEFAULT_GAS_LIMIT)
+      ).toString(),
+      gasEstimated: estimatedGasLimit !== undefined,
+    });
+
+    showText(`Transaction exported to ${filePath}`, '', false, false);
+    return txHash;
+  }
+
+  /**
+   * Waits for a sent transaction to be mined. Returns undefined for
+   * transactions that were exported or simulated instead of sent.
+   */
+  public async waitForTransactionReceipt(
+    txHash: Hex,
+  ): Promise<TransactionReceipt | undefined> {
+    if (isExportedTransaction(txHash)) return undefined;
+
     return await this.client.waitForTransactionReceipt({ hash: txHash });
   }
 
@@ -248,7 +393,9 @@ export class ContractManager {
       }) as any;
 
       // Extract the contract address
-      const contractAddress = decodedLog.args?.contractAddress as Hex | undefined;
+      const contractAddress = decodedLog.args?.contractAddress as
+        | Hex
+        | undefined;
 
       if (!contractAddress) {
         throw new Error('Contract address not found in decoded log.');
@@ -332,7 +479,7 @@ export class ContractManager {
 
     const receipt = await this.waitForTransactionReceipt(txHash);
 
-    return receipt;
+    return { txHash, receipt };
   }
 
   /**
@@ -533,10 +680,12 @@ export class ContractManager {
 
   /**
    * Gets the contract name and version from the deployed contract.
+   * @param client The public client of the contract's chain.
    * @param contractAddress The address of the contract.
    * @returns An object containing contract name and version, or undefined if the call fails
    */
-  public async getContractVersion(
+  static async getContractVersion(
+    client: PublicClient,
     contractAddress: Hex,
   ): Promise<{ name: string; version: string } | undefined> {
     try {
@@ -565,7 +714,7 @@ export class ContractManager {
         args: [],
       });
 
-      const result = await this.client.call({
+      const result = await client.call({
         to: contractAddress,
         data,
       });
@@ -0,0 +1,82 @@
+import {
+  createPublicClient,
+  http,
+  parseTransaction,
+  PublicClient,
+  toFunctionSelector,
+} from 'viem';
+import { MagicDropCloneFactoryAbis } from '../../abis';
+import { ContractManager } from '../ContractManager';
+import { rpcUrls, SUPPORTED_CHAINS } from '../constants';
+import { printTransactionHash, showError, showText } from '../display';
+import { EvmPlatform } from '../evmUtils';
+import { getExplorerContractUrl, getViemChainByChainId } from '../getters';
+import { readSignedTransactions } from '../unsignedTransactions';
+
+const CREATE_CONTRACT_SELECTOR = toFunctionSelector(
+  MagicDropCloneFactoryAbis.createContract,
+);
+
+/**
+ * Sends the signed transactions in `file` one by one, waiting for each
+ * receipt so that dependent transactions land in order.
+ */
+const broadcastAction = async (platform: EvmPlatform, file: string) => {
+  try {
+    const signedTransactions = readSignedTransactions(file);
+    showText(
+      `Broadcasting ${signedTransactions.length} transaction(s)...`,
+      '',
+      false,
+      false,
+    );
+
+    for (const serializedTransaction of signedTransactions) {
+      const tx = parseTransaction(serializedTransaction);
+      const chainId = tx.chainId as SUPPORTED_CHAINS;
+      if (!chainId || !platform.isChainIdSupported(chainId)) {
+        throw new Error(
+          `chain ${chainId} is not supported on the ${platform.name} platform.`,
+        );
+      }
+
+      const client = createPublicClient({
+        chain: getViemChainByChainId(chainId),
+        transport: http(rpcUrls[chainId]),
+      }) as PublicClient;
+
+      const txHash = await client.sendRawTransaction({ serializedTransaction });
+      const receipt = await client.waitForTransactionReceipt({ hash: txHash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${txHash} reverted.`);
+      }
+
+      printTransactionHash(txHash, chainId);
+
+      if (tx.data?.startsWith(CREATE_CONTRACT_SELECTOR)) {
+        const contractAddress = ContractManager.getContractAddressFromLogs(
+          receipt.logs,
+        );
+        showText(
+          `Deployed Contract Address: ${contractAddress}`,
+          '',
+          false,
+          false,
+        );
+        showText(
+          getExplorerContractUrl(chainId, contractAddress),
+          '',
+          false,
+          false,
+        );
+      }
+    }
+
+    showText('All transactions broadcast.', '', false, false);
+  } catch (error: any) {
+    showError({ text: `Error broadcasting transactions: ${error.message}` });
+    process.exit(1);
+  }
+};
+
+export default broadcastAction;
@@ -1,7 +1,7 @@
 import { verifyContractDeployment } from '../common';
 import { ContractManager } from '../ContractManager';
 import { init } from '../evmUtils';
-import { getProjectSigner } from '../turnkey';
+import { getProjectSigner } from '../signers';
 
 export const actionPresets = async (
   symbol: string,
@@ -15,9 +15,9 @@ export const actionPresets = async (
   if (verifyDeployment)
     verifyContractDeployment(config.deployment?.contract_address);
 
-  const { signer } = await getProjectSigner(symbol);
+  const { signer, projectSigner } = await getProjectSigner(symbol);
 
-  const cm = new ContractManager(config.chainId, signer, symbol);
+  const cm = new ContractManager(config.chainId, signer, symbol, projectSigner);
 
   await cm.printSignerWithBalance();
 
@@ -2,7 +2,7 @@ import { ContractManager } from '../ContractManager';
 import { deployContract } from '../deployContract';
 import { showError } from '../display';
 import { EvmPlatform, init, validateConfig } from '../evmUtils';
-import { getProjectSigner } from '../turnkey';
+import { getProjectSigner } from '../signers';
 
 const deployAction = async (
   platform: EvmPlatform,
@@ -39,12 +39,13 @@ const deployAction = async (
       );
     }
 
-    const { signer } = await getProjectSigner(symbol);
+    const { signer, projectSigner } = await getProjectSigner(symbol);
 
     const cm = new ContractManager(
       mergedConfig.chainId,
       signer,
       symbol.toLowerCase(),
+      projectSigner,
     );
 
     await deployContract({
@@ -54,7 +55,9 @@ const deployAction = async (
       store,
     });
 
-    console.log('Contract deployed successfully!');
+    if (!cm.unsignedExportPath && !cm.dryRun) {
+      console.log('Contract deployed successfully!');
+    }
   } catch (error: any) {
     showError({ text: `Error deploying contract: ${error.message}` });
     process.exit(1);
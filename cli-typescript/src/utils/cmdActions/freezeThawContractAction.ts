@@ -25,6 +25,10 @@ export const freezeThawContractAction = async (
     );
 
     const receipt = await cm.waitForTransactionReceipt(txHash);
+    if (!receipt) {
+      printTransactionHash(txHash, config.chainId);
+      return;
+    }
 
     if (receipt.status !== 'success') {
       throw new Error('Transaction failed');
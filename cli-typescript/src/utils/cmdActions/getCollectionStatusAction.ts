@@ -0,0 +1,137 @@
+import { formatEther, zeroAddress } from 'viem';
+import { getCollectionStatus } from '../collectionStatus';
+import { verifyContractDeployment } from '../common';
+import { showError, showText } from '../display';
+import { init } from '../evmUtils';
+import { getExplorerContractUrl, getSymbolFromChainId } from '../getters';
+import { CollectionStatus } from '../types';
+
+const NOT_AVAILABLE = 'n/a';
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? NOT_AVAILABLE : String(value);
+
+const formatTimestamp = (timestamp: bigint): string =>
+  new Date(Number(timestamp) * 1000).toISOString();
+
+const printStatus = (status: CollectionStatus) => {
+  const nativeSymbol = getSymbolFromChainId(status.chainId);
+  // stage prices are in the mint currency, native unless set to an ERC20
+  const nativePrices =
+    !status.mintCurrency || status.mintCurrency === zeroAddress;
+  const formatPrice = (price: bigint) =>
+    nativePrices ? `${formatEther(price)} ${nativeSymbol}` : price.toString();
+  const formatBalance = (value?: bigint) =>
+    value === undefined
+      ? NOT_AVAILABLE
+      : `${formatEther(value)} ${nativeSymbol}`;
+
+  const rows: [string, string][] = [
+    ['Name', formatValue(status.name)],
+    [
+      'Contract',
+      status.contractName
+        ? `${status.contractName} ${status.version}`
+        : NOT_AVAILABLE,
+    ],
+    ['Address', status.contractAddress],
+    [
+      'Explorer',
+      getExplorerContractUrl(status.chainId, status.contractAddress),
+    ],
+    ['Owner', formatValue(status.owner)],
+    ['Mintable', formatValue(status.mintable)],
+    ['Frozen', formatValue(status.frozen)],
+    ['Setup locked', formatValue(status.setupLocked)],
+    ['Mint currency', formatValue(status.mintCurrency)],
+    ['Mint fee', formatBalance(status.mintFee)],
+    ['Cosigner', formatValue(status.cosigner)],
+    [
+      'Timestamp expiry',
+      status.timestampExpirySeconds === undefined
+        ? NOT_AVAILABLE
+        : `${status.timestampExpirySeconds}s`,
+    ],
+    ['Transfer validator', formatValue(status.transferValidator)],
+    ['Transfer list', formatValue(status.transferListId)],
+    ['Balance', formatBalance(status.balance)],
+    [
+      'Authorized minters',
+      status.authorizedMinters
+        ? status.authorizedMinters.join(', ') || 'none'
+        : `${NOT_AVAILABLE} (${status.authorizedMintersError})`,
+    ],
+  ];
+
+  showText(`${status.name ?? status.contractAddress} on-chain status`);
+  const width = Math.max(...rows.map(([label]) => label.length));
+  rows.forEach(([label, value]) =>
+    console.log(`${label.padEnd(width)}  ${value}`),
+  );
+
+  console.log('');
+  showText('Supply', '', false);
+  console.table(
+    status.tokens.map((token) => ({
+      ...(token.tokenId !== undefined && { tokenId: token.tokenId }),
+      totalSupply: formatValue(token.totalSupply),
+      maxMintableSupply: formatValue(token.maxMintableSupply),
+      globalWalletLimit: formatValue(token.globalWalletLimit),
+    })),
+  );
+
+  showText('Stages', '', false);
+  if (!status.stages) {
+    console.log(NOT_AVAILABLE);
+  } else if (status.stages.length === 0) {
+    console.log('No stages set.');
+  } else {
+    console.table(
+      status.stages.map((stage) => ({
+        price: stage.price.map(formatPrice).join(', '),
+        walletLimit: stage.walletLimit.join(', '),
+        maxStageSupply: stage.maxStageSupply.join(', '),
+        minted: stage.stageMinted.join(', '),
+        start: formatTimestamp(stage.startTimeUnixSeconds),
+        end: formatTimestamp(stage.endTimeUnixSeconds),
+        merkleRoot: stage.merkleRoot.join(', '),
+      })),
+    );
+  }
+};
+
+/**
+ * Prints the on-chain state of a deployed collection, as a table or JSON.
+ */
+const getCollectionStatusAction = async (
+  symbol: string,
+  params: { json?: boolean },
+) => {
+  try {
+    symbol = symbol.toLowerCase();
+
+    const { store } = init(symbol);
+    const config = store.data!;
+    verifyContractDeployment(config.deployment?.contract_address);
+
+    const status = await getCollectionStatus(config);
+
+    if (params.json) {
+      console.log(
+        JSON.stringify(
+          status,
+          (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+          2,
+        ),
+      );
+      return;
+    }
+
+    printStatus(status);
+  } catch (error: any) {
+    showError({ text: `Error reading collection status: ${error.message}` });
+    process.exit(1);
+  }
+};
+
+export default getCollectionStatusAction;
@@ -1,5 +1,7 @@
+import { SIGNER_TYPE } from '../constants';
 import { showError, showText } from '../display';
 import { getProjectStore } from '../fileUtils';
+import { getProjectSigner, getSignerConfig } from '../signers';
 import { getMETurnkeyServiceClient } from '../turnkey';
 
 const getWalletInfoAction = async (symbol: string) => {
@@ -13,6 +15,14 @@ const getWalletInfoAction = async (symbol: string) => {
   }
 
   try {
+    if (getSignerConfig(symbol).type !== SIGNER_TYPE.TURNKEY) {
+      const { projectSigner } = await getProjectSigner(symbol);
+
+      showText('Wallet information retrieved successfully.');
+      console.log({ type: projectSigner.type, address: projectSigner.address });
+      return;
+    }
+
     const meTurnkeyServiceClient = await getMETurnkeyServiceClient();
     const walletInfo = await meTurnkeyServiceClient.getWallet(symbol);
     if (!walletInfo) {
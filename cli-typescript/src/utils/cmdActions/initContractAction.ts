@@ -2,7 +2,7 @@ import { Hex } from 'viem';
 import { ContractManager } from '../ContractManager';
 import { setupContract } from '../deployContract';
 import { init } from '../evmUtils';
-import { getProjectSigner } from '../turnkey';
+import { getProjectSigner } from '../signers';
 import { showError } from '../display';
 import { verifyContractDeployment } from '../common';
 
@@ -18,9 +18,14 @@ const initContractAction = async (
 
     verifyContractDeployment(config.deployment?.contract_address);
 
-    const { signer } = await getProjectSigner(symbol);
+    const { signer, projectSigner } = await getProjectSigner(symbol);
 
-    const cm = new ContractManager(config.chainId, signer, symbol);
+    const cm = new ContractManager(
+      config.chainId,
+      signer,
+      symbol,
+      projectSigner,
+    );
 
     await setupContract({
       cm,
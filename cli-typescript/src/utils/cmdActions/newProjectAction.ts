@@ -1,8 +1,9 @@
-import { TOKEN_STANDARD } from '../constants';
+import { SIGNER_TYPE, TOKEN_STANDARD } from '../constants';
 import { showError, showText } from '../display';
 import { getProjectStore } from '../fileUtils';
 import { getChainIdFromName } from '../getters';
 import { ERC1155_TEMPLATE, ERC721_TEMPLATE } from '../../templates';
+import { getSignerConfig } from '../signers';
 import { getMETurnkeyServiceClient } from '../turnkey';
 import { Collection } from '../types';
 
@@ -28,23 +29,29 @@ const newProjectAction = async (
       : ERC1155_TEMPLATE
   ) as Collection;
 
+  // keep a --signer choice so that later commands use the same backend
+  const signerConfig = getSignerConfig();
+  const useTurnkey = signerConfig.type === SIGNER_TYPE.TURNKEY;
+
   if (projectStore.data) {
     projectStore.data.chainId = getChainIdFromName(params.chain);
+    if (!useTurnkey) projectStore.data.signer = signerConfig;
     projectStore.write();
   }
 
   let walletInfo = undefined;
 
-  const meTurnkeyServiceClient = await getMETurnkeyServiceClient();
-
   // Create a wallet for the project
-  if (params.setupWallet) {
+  if (params.setupWallet && useTurnkey) {
+    const meTurnkeyServiceClient = await getMETurnkeyServiceClient();
     walletInfo = await meTurnkeyServiceClient.createWallet(symbol);
   }
 
-  const signerInfo = params.setupWallet
-    ? `Note: A signer account - "${walletInfo?.address}" - was created for this collection, you will need to fund it before you can deploy this collection.`
-    : `Note: A signer account was NOT setup for this collection, you will need one before you can deploy.
+  const signerInfo = !useTurnkey
+    ? `Note: This collection signs with the ${signerConfig.type} signer, you will need to fund its account before you can deploy this collection.`
+    : params.setupWallet
+      ? `Note: A signer account - "${walletInfo?.address}" - was created for this collection, you will need to fund it before you can deploy this collection.`
+      : `Note: A signer account was NOT setup for this collection, you will need one before you can deploy.
       You can use the create-wallet command to create a signer account for this collection.`;
 
   showText(
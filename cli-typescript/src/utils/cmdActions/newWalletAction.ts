@@ -1,5 +1,7 @@
+import { SIGNER_TYPE } from '../constants';
 import { showError, showText } from '../display';
 import { getProjectStore } from '../fileUtils';
+import { getSignerConfig } from '../signers';
 import { getMETurnkeyServiceClient } from '../turnkey';
 
 const newWalletAction = async (symbol: string) => {
@@ -12,6 +14,14 @@ const newWalletAction = async (symbol: string) => {
     process.exit(1);
   }
 
+  const { type } = getSignerConfig(symbol);
+  if (type !== SIGNER_TYPE.TURNKEY) {
+    showError({
+      text: `${symbol} uses the ${type} signer, create-wallet only sets up Turnkey wallets.`,
+    });
+    process.exit(1);
+  }
+
   const meTurnkeyServiceClient = await getMETurnkeyServiceClient();
 
   try {
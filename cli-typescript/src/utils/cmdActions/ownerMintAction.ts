@@ -62,6 +62,10 @@ export const ownerMintAction = async (
     });
 
     const receipt = await cm.waitForTransactionReceipt(txHash);
+    if (!receipt) {
+      printTransactionHash(txHash, config.chainId);
+      return;
+    }
 
     if (receipt.status !== 'success') {
       throw new Error('Transaction failed');
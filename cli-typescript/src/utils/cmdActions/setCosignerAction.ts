@@ -35,6 +35,10 @@ export const setCosignerAction = async (
     });
 
     const receipt = await cm.waitForTransactionReceipt(txHash);
+    if (!receipt) {
+      printTransactionHash(txHash, config.chainId);
+      return;
+    }
     if (receipt.status !== 'success') {
       throw new Error('Transaction failed');
     }
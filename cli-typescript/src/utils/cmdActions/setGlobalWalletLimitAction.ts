@@ -47,6 +47,10 @@ export const setGlobalWalletLimitAction = async (
     });
 
     const receipt = await cm.waitForTransactionReceipt(txHash);
+    if (!receipt) {
+      printTransactionHash(txHash, config.chainId);
+      return;
+    }
     if (receipt.status !== 'success') {
       throw new Error('Transaction failed');
     }
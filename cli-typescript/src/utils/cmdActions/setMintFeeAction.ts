@@ -92,6 +92,7 @@ const sendSetMintFeeTransaction = async (
   });
 
   const receipt = await cm.waitForTransactionReceipt(txHash);
+  if (!receipt) return txHash;
   if (receipt.status !== 'success') {
     throw new Error('Transaction failed');
   }
@@ -32,6 +32,10 @@ export const setMintableAction = async (
     });
 
     const receipt = await cm.waitForTransactionReceipt(txHash);
+    if (!receipt) {
+      printTransactionHash(txHash, config.chainId);
+      return;
+    }
     if (receipt.status !== 'success') {
       throw new Error('Transaction failed');
     }
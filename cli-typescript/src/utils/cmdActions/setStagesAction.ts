@@ -23,7 +23,10 @@ export const setStagesAction = async (
 
     // Get contract version to determine which ABI to use
     const contractAddress = config.deployment?.contract_address as Hex;
-    const versionInfo = await cm.getContractVersion(contractAddress);
+    const versionInfo = await ContractManager.getContractVersion(
+      cm.client,
+      contractAddress,
+    );
     const version = versionInfo?.version;
     const isLegacy = isLegacyContract(version);
 
@@ -129,6 +132,7 @@ const sendERC721StagesTransaction = async (
   });
 
   const receipt = await cm.waitForTransactionReceipt(txHash);
+  if (!receipt) return txHash;
   if (receipt.status !== 'success') {
     throw new Error('Transaction failed');
   }
@@ -199,6 +203,7 @@ const sendERC1155SetupTransaction = async (
   });
 
   const receipt = await cm.waitForTransactionReceipt(txHash);
+  if (!receipt) return txHash;
   if (receipt.status !== 'success') {
     throw new Error('Transaction failed');
   }
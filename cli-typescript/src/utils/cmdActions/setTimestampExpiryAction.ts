@@ -41,6 +41,10 @@ export const setTimestampExpiryAction = async (
     });
 
     const receipt = await cm.waitForTransactionReceipt(txHash);
+    if (!receipt) {
+      printTransactionHash(txHash, config.chainId);
+      return;
+    }
     if (receipt.status !== 'success') {
       throw new Error('Transaction failed');
     }
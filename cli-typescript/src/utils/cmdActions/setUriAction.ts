@@ -34,6 +34,10 @@ export const setUriAction = async (symbol: string, params: { uri: string }) => {
       data,
     });
     const receipt = await cm.waitForTransactionReceipt(txHash);
+    if (!receipt) {
+      printTransactionHash(txHash, config.chainId);
+      return;
+    }
 
     if (receipt.status !== 'success') {
       throw new Error('Transaction failed');
@@ -57,6 +57,10 @@ export const transferOwnershipAction = async (
     });
 
     const receipt = await cm.waitForTransactionReceipt(txHash);
+    if (!receipt) {
+      printTransactionHash(txHash, config.chainId);
+      return;
+    }
 
     if (receipt.status !== 'success') {
       throw new Error('Transaction failed');
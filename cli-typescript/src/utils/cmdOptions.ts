@@ -1,5 +1,6 @@
 import { Option } from 'commander';
 import {
+  SIGNER_TYPE,
   SUPPORTED_CHAINS,
   supportedChainNames,
   TOKEN_STANDARD,
@@ -168,3 +169,38 @@ export const getMintFeeOption = () =>
     '--mintFee <mintFee>',
     'Specify the mint fee in ETH (e.g., 0.001 for 0.001 ETH). This feature is only available for contract version >= 1.0.2',
   );
+
+export const getJsonOption = () =>
+  new Option('--json', 'print the output as JSON.').default(false);
+
+export const getDryRunOption = () =>
+  new Option(
+    '--dry-run',
+    'Simulate transactions with eth_call and estimateGas from the signer instead of sending them. Reverts are decoded and reported.',
+  );
+
+export const getUnsignedOption = () =>
+  new Option(
+    '--unsigned [file]',
+    `
+    Write transactions to a JSON file for offline signing instead of sending them.
+    Defaults to a new file in the project's "unsigned" directory. Send the signed transactions with "broadcast".
+  `,
+  );
+
+export const getFromOption = () =>
+  new Option(
+    '--from <address>',
+    'Address that will sign the --unsigned transactions. Defaults to deployment.initial_owner in project.json.',
+  );
+
+export const getSignerOption = () =>
+  new Option(
+    '--signer <signer>',
+    `
+    Signer backend to send transactions with. Overrides "signer" in project.json; defaults to turnkey.
+    keystore reads a JSON V3 keystore from "signer.keystorePath" or MAGICDROP_KEYSTORE_PATH.
+    private-key reads the key from MAGICDROP_PRIVATE_KEY.
+    safe writes a Safe Transaction Builder batch for "signer.safeAddress" or MAGICDROP_SAFE_ADDRESS instead of sending.
+  `,
+  ).choices(Object.values(SIGNER_TYPE));
@@ -0,0 +1,314 @@
+import {
+  AbiFunction,
+  BaseError,
+  createPublicClient,
+  Hex,
+  http,
+  PublicClient,
+} from 'viem';
+import {
+  ERC1155MReadAbis,
+  ERC721MReadAbis,
+  GET_COLLECTION_SECURITY_POLICY_ABI,
+  GET_COLLECTION_SECURITY_POLICY_ABI_V5,
+  MagicDropReadAbis,
+} from '../abis';
+import { rpcUrls, TOKEN_STANDARD } from './constants';
+import { ContractManager } from './ContractManager';
+import { getViemChainByChainId, isTransferValidatorV5 } from './getters';
+import {
+  Collection,
+  CollectionStageStatus,
+  CollectionStatus,
+  CollectionTokenStatus,
+} from './types';
+
+/**
+ * Resolves to undefined instead of rejecting, for functions that older or
+ * ERC1155 implementations do not have.
+ */
+const tryRead = async <T>(read: () => Promise<T>): Promise<T | undefined> => {
+  try {
+    return await read();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Calls a view function, see tryRead.
+ */
+const readView = <T>(
+  client: PublicClient,
+  address: Hex,
+  abi: AbiFunction,
+  args: readonly unknown[] = [],
+): Promise<T | undefined> =>
+  tryRead(
+    () =>
+      client.readContract({
+        address,
+        abi: [abi],
+        functionName: abi.name,
+        args,
+      }) as Promise<T>,
+  );
+
+const readStages = async (
+  client: PublicClient,
+  address: Hex,
+  tokenStandard: TOKEN_STANDARD,
+): Promise<CollectionStageStatus[]> => {
+  const numberOfStages = await client.readContract({
+    address,
+    abi: [MagicDropReadAbis.getNumberStages],
+    functionName: MagicDropReadAbis.getNumberStages.name,
+  });
+
+  return await Promise.all(
+    Array.from({ length: Number(numberOfStages) }, async (_, index) => {
+      if (tokenStandard === TOKEN_STANDARD.ERC1155) {
+        const [stage, , stageMinted] = await client.readContract({
+          address,
+          abi: [ERC1155MReadAbis.getStageInfo],
+          functionName: ERC1155MReadAbis.getStageInfo.name,
+          args: [BigInt(index)],
+        });
+        return {
+          index,
+          ...stage,
+          price: [...stage.price],
+          walletLimit: [...stage.walletLimit],
+          merkleRoot: [...stage.merkleRoot],
+          maxStageSupply: [...stage.maxStageSupply],
+          stageMinted: [...stageMinted],
+        };
+      }
+
+      const [stage, , stageMinted] = await client.readContract({
+        address,
+        abi: [ERC721MReadAbis.getStageInfo],
+        functionName: ERC721MReadAbis.getStageInfo.name,
+        args: [BigInt(index)],
+      });
+      return {
+        index,
+        price: [stage.price],
+        walletLimit: [stage.walletLimit],
+        merkleRoot: [stage.merkleRoot],
+        maxStageSupply: [stage.maxStageSupply],
+        stageMinted: [stageMinted],
+        startTimeUnixSeconds: stage.startTimeUnixSeconds,
+        endTimeUnixSeconds: stage.endTimeUnixSeconds,
+      };
+    }),
+  );
+};
+
+const readTokens = async (
+  client: PublicClient,
+  address: Hex,
+  config: Collection,
+): Promise<CollectionTokenStatus[]> => {
+  if (config.tokenStandard === TOKEN_STANDARD.ERC721) {
+    const [maxMintableSupply, globalWalletLimit, totalSupply] =
+      await Promise.all([
+        readView<bigint>(client, address, ERC721MReadAbis.getMaxMintableSupply),
+        readView<bigint>(client, address, ERC721MReadAbis.getGlobalWalletLimit),
+        readView<bigint>(client, address, ERC721MReadAbis.totalSupply),
+      ]);
+    return [{ maxMintableSupply, globalWalletLimit, totalSupply }];
+  }
+
+  // token IDs are not enumerable on-chain, use the ones in project.json
+  return await Promise.all(
+    config.maxMintableSupply.map(async (_, tokenId) => {
+      const read = (abi: AbiFunction) =>
+        readView<bigint>(client, address, abi, [BigInt(tokenId)]);
+      const [maxMintableSupply, globalWalletLimit, totalSupply] =
+        await Promise.all([
+          read(ERC1155MReadAbis.getMaxMintableSupply),
+          read(ERC1155MReadAbis.getGlobalWalletLimit),
+          read(ERC1155MReadAbis.totalSupply),
+        ]);
+      return { tokenId, maxMintableSupply, globalWalletLimit, totalSupply };
+    }),
+  );
+};
+
+const readTransferListId = async (
+  client: PublicClient,
+  address: Hex,
+  transferValidator: Hex,
+): Promise<bigint> => {
+  const abi = isTransferValidatorV5(transferValidator)
+    ? GET_COLLECTION_SECURITY_POLICY_ABI_V5
+    : GET_COLLECTION_SECURITY_POLICY_ABI;
+  const policy = await client.readContract({
+    address: transferValidator,
+    abi: [abi],
+    functionName: abi.name,
+    args: [address],
+  });
+
+  return BigInt(policy.listId);
+};
+
+/**
+ * Replays the AuthorizedMinterAdded/Removed events, the contract keeps no
+ * list of minters. Each remaining candidate is confirmed on-chain.
+ * Logs are read from the deployment block, most RPCs reject unbounded ranges.
+ */
+const readAuthorizedMinters = async (
+  client: PublicClient,
+  address: Hex,
+  deploymentBlock?: string,
+): Promise<Hex[]> => {
+  if (!deploymentBlock) {
+    throw new Error(
+      'deployment.block_number is not set in project.json, set it to read the minter events',
+    );
+  }
+
+  const logs = await client.getLogs({
+    address,
+    events: [
+      MagicDropReadAbis.AuthorizedMinterAdded,
+      MagicDropReadAbis.AuthorizedMinterRemoved,
+    ],
+    fromBlock: BigInt(deploymentBlock),
+    toBlock: 'latest',
+  });
+
+  const candidates = new Set<Hex>();
+  for (const log of logs) {
+    const minter = log.args.minter;
+    if (!minter) continue;
+    if (log.eventName === MagicDropReadAbis.AuthorizedMinterAdded.name) {
+      candidates.add(minter);
+    } else {
+      candidates.delete(minter);
+    }
+  }
+
+  const authorized = await Promise.all(
+    Array.from(candidates).map((minter) =>
+      client.readContract({
+        address,
+        abi: [MagicDropReadAbis.isAuthorizedMinter],
+        functionName: MagicDropReadAbis.isAuthorizedMinter.name,
+        args: [minter],
+      }),
+    ),
+  );
+  return Array.from(candidates).filter((_, i) => authorized[i]);
+};
+
+/**
+ * Reads the authorized minters, with the reason when they could not be read.
+ */
+const tryReadAuthorizedMinters = async (
+  client: PublicClient,
+  address: Hex,
+  deploymentBlock?: string,
+): Promise<
+  Pick<CollectionStatus, 'authorizedMinters' | 'authorizedMintersError'>
+> => {
+  try {
+    return {
+      authorizedMinters: await readAuthorizedMinters(
+        client,
+        address,
+        deploymentBlock,
+      ),
+    };
+  } catch (error: unknown) {
+    return {
+      authorizedMintersError:
+        error instanceof BaseError
+          ? error.shortMessage
+          : error instanceof Error
+            ? error.message
+            : String(error),
+    };
+  }
+};
+
+/**
+ * Reads the on-chain state of a deployed collection.
+ * @param config The project configuration, with a deployed contract address.
+ */
+export const getCollectionStatus = async (
+  config: Collection,
+): Promise<CollectionStatus> => {
+  const address = config.deployment!.contract_address as Hex;
+  const client = createPublicClient({
+    chain: getViemChainByChainId(config.chainId),
+    transport: http(rpcUrls[config.chainId]),
+  }) as PublicClient;
+
+  const read = <T>(abi: AbiFunction) => readView<T>(client, address, abi);
+
+  const [
+    contractVersion,
+    name,
+    owner,
+    cosigner,
+    timestampExpirySeconds,
+    mintable,
+    mintFee,
+    mintCurrency,
+    transferable,
+    setupLocked,
+    transferValidator,
+    stages,
+    tokens,
+    balance,
+    minters,
+  ] = await Promise.all([
+    ContractManager.getContractVersion(client, address),
+    read<string>(MagicDropReadAbis.name),
+    read<Hex>(MagicDropReadAbis.owner),
+    read<Hex>(MagicDropReadAbis.getCosigner),
+    read<bigint>(MagicDropReadAbis.getTimestampExpirySeconds),
+    read<boolean>(MagicDropReadAbis.getMintable),
+    read<bigint>(MagicDropReadAbis.getMintFee),
+    read<Hex>(MagicDropReadAbis.getMintCurrency),
+    read<boolean>(MagicDropReadAbis.isTransferable),
+    read<boolean>(MagicDropReadAbis.isSetupLocked),
+    read<Hex>(MagicDropReadAbis.getTransferValidator),
+    tryRead(() => readStages(client, address, config.tokenStandard)),
+    readTokens(client, address, config),
+    tryRead(() => client.getBalance({ address })),
+    tryReadAuthorizedMinters(client, address, config.deployment!.block_number),
+  ]);
+
+  const transferListId = transferValidator
+    ? await tryRead(() =>
+        readTransferListId(client, address, transferValidator),
+      )
+    : undefined;
+
+  return {
+    chainId: config.chainId,
+    contractAddress: address,
+    tokenStandard: config.tokenStandard,
+    name,
+    contractName: contractVersion?.name,
+    version: contractVersion?.version,
+    owner,
+    stages,
+    tokens,
+    cosigner,
+    timestampExpirySeconds,
+    mintable,
+    mintFee,
+    mintCurrency,
+    transferValidator,
+    transferListId,
+    frozen: transferable === undefined ? undefined : !transferable,
+    setupLocked,
+    balance,
+    ...minters,
+  };
+};
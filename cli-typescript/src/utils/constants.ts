@@ -74,6 +74,37 @@ export enum TOKEN_STANDARD {
   ERC1155 = 'ERC1155',
 }
 
+export enum SIGNER_TYPE {
+  TURNKEY = 'turnkey',
+  KEYSTORE = 'keystore',
+  PRIVATE_KEY = 'private-key',
+  SAFE = 'safe',
+}
+
+// set from the --signer flag, overrides the backend in project.json
+export const SIGNER_ENV = 'MAGICDROP_SIGNER';
+// set from the --unsigned flag, "true" or the export file path
+export const UNSIGNED_ENV = 'MAGICDROP_UNSIGNED';
+// set from the --from flag, the address --unsigned exports transactions from
+export const UNSIGNED_FROM_ENV = 'MAGICDROP_UNSIGNED_FROM';
+// set from the --dry-run flag
+export const DRY_RUN_ENV = 'MAGICDROP_DRY_RUN';
+// env vars read by the local signer backends
+export const DEFAULT_PRIVATE_KEY_ENV = 'MAGICDROP_PRIVATE_KEY';
+export const KEYSTORE_PATH_ENV = 'MAGICDROP_KEYSTORE_PATH';
+export const KEYSTORE_PASSWORD_ENV = 'MAGICDROP_KEYSTORE_PASSWORD';
+export const SAFE_ADDRESS_ENV = 'MAGICDROP_SAFE_ADDRESS';
+
+// MultiSendCallOnly v1.3.0, deployed at the same address on every chain
+export const SAFE_MULTI_SEND_CALL_ONLY_ADDRESS =
+  '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D';
+export const SAFE_TX_BUILDER_VERSION = '1.16.5';
+
+export enum SAFE_OPERATION {
+  CALL = 0,
+  DELEGATE_CALL = 1,
+}
+
 export enum SUPPORTED_CHAINS {
   APECHAIN = 33139,
   ARBITRUM = 42161,
@@ -161,6 +192,8 @@ export const DEFAULT_MERKLE_ROOT =
   '0x0000000000000000000000000000000000000000000000000000000000000000';
 
 export const STANDARD_GAS_LIMIT = 21000; // Standard gas limit for native transfers
+export const GAS_ESTIMATE_BUFFER_PERCENT = 120; // suggested gas limit relative to the estimate
+export const DEFAULT_GAS_LIMIT = 3_000_000; // used when no gas limit is given or it cannot be estimated
 
 // Setup function signatures for ERC721 contracts
 export const LEGACY_SETUP_SIGNATURE =
@@ -91,7 +91,7 @@ export const deployContract = async ({
 
   showText('Deploying contract... this may take a minute.', '', false, false);
 
-  const receipt = await cm.createContract({
+  const { txHash, receipt } = await cm.createContract({
     collectionName,
     collectionSymbol,
     factoryAddress,
@@ -100,11 +100,23 @@ export const deployContract = async ({
     deploymentFee,
   });
 
-  if (!receipt.transactionHash) {
-    throw new Error('Transaction hash not found in transaction receipt.');
+  printTransactionHash(txHash, cm.chainId);
+
+  if (cm.dryRun) {
+    showText('Dry run complete, nothing was deployed.', '', false, false);
+    return;
   }
 
-  printTransactionHash(receipt.transactionHash, cm.chainId);
+  if (!receipt) {
+    // the address is only known once the deployment is broadcast
+    showText(
+      'Sign and broadcast the deployment, then set deployment.contract_address and deployment.block_number in project.json and run init-contract.',
+      '',
+      false,
+      false,
+    );
+    return;
+  }
 
   // Extract the contract address
   const contractAddress = ContractManager.getContractAddressFromLogs(
@@ -118,7 +130,7 @@ export const deployContract = async ({
     false,
   );
 
-  saveDeploymentData(store, contractAddress, cm.signer);
+  saveDeploymentData(store, contractAddress, cm.signer, receipt.blockNumber);
 
   const isICreatorToken = await cm.supportsICreatorToken(contractAddress);
 
@@ -175,12 +187,14 @@ export const deployContract = async ({
  * Saves deployment data to a collection file.
  * @param contractAddress The deployed contract address.
  * @param initialOwner The initial owner of the contract.
+ * @param blockNumber The block the contract was deployed in.
  * @throws Error if the collection file is not found or if saving fails.
  */
 export const saveDeploymentData = (
   store: ReturnType<typeof getProjectStore>,
   contractAddress: Hex,
   initialOwner: Hex,
+  blockNumber?: bigint,
 ): void => {
   // Get the current timestamp
   const timestamp = Date.now();
@@ -193,6 +207,7 @@ export const saveDeploymentData = (
     contract_address: contractAddress,
     initial_owner: initialOwner,
     deployed_at: deployedAt,
+    ...(blockNumber !== undefined && { block_number: blockNumber.toString() }),
   };
 
   // Add deployment data to the collection JSON
@@ -251,7 +266,10 @@ export const setupContract = async (params: {
     }
 
     // Get contract version to determine which ABI to use
-    const versionInfo = await cm.getContractVersion(contractAddress);
+    const versionInfo = await ContractManager.getContractVersion(
+      cm.client,
+      contractAddress,
+    );
     const version = versionInfo?.version;
     const isLegacy = isLegacyContract(version);
 
@@ -554,6 +572,7 @@ const sendERC721SetupTransaction = async ({
     });
 
     const receipt = await cm.waitForTransactionReceipt(hash);
+    if (!receipt) return hash;
 
     return receipt.transactionHash;
   } catch (error) {
@@ -615,6 +634,7 @@ const sendERC1155SetupTransaction = async ({
     });
 
     const receipt = await cm.waitForTransactionReceipt(hash);
+    if (!receipt) return hash;
 
     return receipt.transactionHash;
   } catch (error) {
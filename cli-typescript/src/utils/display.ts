@@ -1,8 +1,9 @@
 import chalk from 'chalk';
 import { confirm } from '@inquirer/prompts';
 import { collapseAddress } from './common';
-import { SUPPORTED_CHAINS, TOKEN_STANDARD } from './constants';
+import { DRY_RUN_ENV, SUPPORTED_CHAINS, TOKEN_STANDARD } from './constants';
 import { getExplorerTxUrl, promptForConfirmation } from './getters';
+import { isExportedTransaction } from './unsignedTransactions';
 
 export const displayMessage = (message: string) => {
   console.log(chalk.green(message));
@@ -80,6 +81,17 @@ export const printTransactionHash = (
   chainId: SUPPORTED_CHAINS,
 ): void => {
   try {
+    if (isExportedTransaction(txHash)) {
+      console.log('');
+      console.log(
+        process.env[DRY_RUN_ENV] === 'true'
+          ? 'Dry run, transaction not sent.'
+          : 'Transaction exported for offline signing, not sent.',
+      );
+      console.log('');
+      return;
+    }
+
     console.log('');
     console.log('Transaction successful.');
     console.log(getExplorerTxUrl(chainId, txHash));
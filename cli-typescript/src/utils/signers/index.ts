@@ -0,0 +1,137 @@
+import path from 'path';
+import { Hex, isAddress } from 'viem';
+import {
+  DEFAULT_PRIVATE_KEY_ENV,
+  KEYSTORE_PATH_ENV,
+  SAFE_ADDRESS_ENV,
+  SIGNER_ENV,
+  SIGNER_TYPE,
+  UNSIGNED_ENV,
+  UNSIGNED_FROM_ENV,
+} from '../constants';
+import { getProjectStore } from '../fileUtils';
+import { ProjectSigner, SignerConfig } from '../types';
+import { createKeystoreSigner } from './keystore';
+import { createEnvPrivateKeySigner } from './privateKey';
+import { createSafeSigner } from './safe';
+import { createTurnkeySigner } from './turnkey';
+
+const isSignerType = (value: string): value is SIGNER_TYPE =>
+  (Object.values(SIGNER_TYPE) as string[]).includes(value);
+
+/**
+ * Returns the signer backend of a project. The `--signer` flag wins over
+ * `signer` in project.json, and projects without either use Turnkey.
+ */
+export const getSignerConfig = (symbol?: string): SignerConfig => {
+  const store = symbol ? getProjectStore(symbol.toLowerCase(), true) : null;
+  const projectConfig = store?.exists ? store.read()?.signer : undefined;
+  const override = process.env[SIGNER_ENV];
+
+  if (override && override !== projectConfig?.type) {
+    if (!isSignerType(override)) {
+      throw new Error(
+        `Unknown signer "${override}". Use one of: ${Object.values(SIGNER_TYPE).join(', ')}`,
+      );
+    }
+    // options in project.json belong to another backend, use the env defaults
+    return { type: override };
+  }
+
+  return projectConfig ?? { type: SIGNER_TYPE.TURNKEY };
+};
+
+const createProjectSigner = async (
+  symbol: string,
+  config: SignerConfig,
+): Promise<ProjectSigner> => {
+  switch (config.type) {
+    case SIGNER_TYPE.KEYSTORE: {
+      const keystorePath =
+        config.keystorePath ?? process.env[KEYSTORE_PATH_ENV];
+      if (!keystorePath) {
+        throw new Error(
+          `Set signer.keystorePath in project.json or ${KEYSTORE_PATH_ENV} to use the keystore signer.`,
+        );
+      }
+      return createKeystoreSigner(
+        path.resolve(getProjectStore(symbol).storeDir, keystorePath),
+      );
+    }
+    case SIGNER_TYPE.PRIVATE_KEY:
+      return createEnvPrivateKeySigner(
+        config.privateKeyEnv ?? DEFAULT_PRIVATE_KEY_ENV,
+      );
+    case SIGNER_TYPE.SAFE: {
+      const safeAddress = config.safeAddress ?? process.env[SAFE_ADDRESS_ENV];
+      if (!safeAddress || !isAddress(safeAddress)) {
+        throw new Error(
+          `Set signer.safeAddress in project.json or ${SAFE_ADDRESS_ENV} to use the safe signer.`,
+        );
+      }
+      return createSafeSigner({
+        safeAddress,
+        proposalDir: path.join(getProjectStore(symbol).storeDir, 'safe'),
+        multiSendAddress: config.multiSendAddress,
+        nonce: config.nonce === undefined ? undefined : BigInt(config.nonce),
+      });
+    }
+    default:
+      return createTurnkeySigner(symbol);
+  }
+};
+
+/**
+ * Stands in for the signer in --unsigned mode, where transactions are only
+ * exported. No key material is loaded, the address comes from `--from` or
+ * the deployment owner in project.json.
+ */
+const createUnsignedSigner = (
+  symbol: string,
+  config: SignerConfig,
+): ProjectSigner => {
+  if (config.type === SIGNER_TYPE.SAFE) {
+    throw new Error(
+      'A Safe cannot sign raw transactions, use --signer safe without --unsigned to propose them.',
+    );
+  }
+
+  const store = getProjectStore(symbol, true);
+  const address =
+    process.env[UNSIGNED_FROM_ENV] ??
+    (store.exists ? store.read()?.deployment?.initial_owner : undefined);
+  if (!address || !isAddress(address)) {
+    throw new Error(
+      'Pass --from <address> with --unsigned, the address that will sign the transactions.',
+    );
+  }
+
+  return {
+    type: config.type,
+    address,
+    sendTransaction: () => {
+      throw new Error('Transactions are exported, not sent, with --unsigned.');
+    },
+  };
+};
+
+/**
+ * Loads the signer backend of a project.
+ * @returns The signer address and the backend that sends its transactions.
+ */
+export const getProjectSigner = async (
+  symbol: string,
+): Promise<{ signer: Hex; projectSigner: ProjectSigner }> => {
+  try {
+    symbol = symbol.toLowerCase();
+    const config = getSignerConfig(symbol);
+    const projectSigner = process.env[UNSIGNED_ENV]
+      ? createUnsignedSigner(symbol, config)
+      : await createProjectSigner(symbol, config);
+
+    return { signer: projectSigner.address, projectSigner };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to fetch signer: ${message}`);
+  }
+};
@@ -0,0 +1,28 @@
+import fs from 'fs';
+import { password } from '@inquirer/prompts';
+import { Wallet } from 'ethers';
+import { KEYSTORE_PASSWORD_ENV, SIGNER_TYPE } from '../constants';
+import { ProjectSigner } from '../types';
+import { createPrivateKeySigner } from './privateKey';
+
+/**
+ * Decrypts a JSON V3 keystore and signs locally with its key. The password
+ * comes from MAGICDROP_KEYSTORE_PASSWORD, or is prompted for.
+ */
+export const createKeystoreSigner = async (
+  keystorePath: string,
+): Promise<ProjectSigner> => {
+  if (!fs.existsSync(keystorePath)) {
+    throw new Error(`Keystore file not found: ${keystorePath}`);
+  }
+
+  const json = fs.readFileSync(keystorePath, 'utf-8');
+  const keystorePassword =
+    process.env[KEYSTORE_PASSWORD_ENV] ??
+    (await password({ message: `Password for ${keystorePath}:`, mask: '*' }));
+
+  console.log('Decrypting keystore...');
+  const wallet = await Wallet.fromEncryptedJson(json, keystorePassword);
+
+  return createPrivateKeySigner(wallet.privateKey, SIGNER_TYPE.KEYSTORE);
+};
@@ -0,0 +1,50 @@
+import { createWalletClient, Hex, http, isHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { rpcUrls, SIGNER_TYPE } from '../constants';
+import { getViemChainByChainId } from '../getters';
+import { ProjectSigner } from '../types';
+
+/**
+ * Signs locally with a raw private key and sends through the chain RPC.
+ */
+export const createPrivateKeySigner = (
+  privateKey: string,
+  type: SIGNER_TYPE = SIGNER_TYPE.PRIVATE_KEY,
+): ProjectSigner => {
+  const key = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
+  if (!isHex(key) || key.length !== 66) {
+    throw new Error('Private key must be 32 bytes of hex.');
+  }
+  const account = privateKeyToAccount(key);
+
+  return {
+    type,
+    address: account.address,
+    sendTransaction: async ({ to, data, value, gasLimit, chainId }) => {
+      const walletClient = createWalletClient({
+        account,
+        chain: getViemChainByChainId(chainId),
+        transport: http(rpcUrls[chainId]),
+      });
+
+      return (await walletClient.sendTransaction({
+        to,
+        data,
+        value,
+        gas: gasLimit,
+      })) as Hex;
+    },
+  };
+};
+
+/**
+ * Reads the private key from `envName`.
+ */
+export const createEnvPrivateKeySigner = (envName: string): ProjectSigner => {
+  const privateKey = process.env[envName];
+  if (!privateKey) {
+    throw new Error(`Set ${envName} to use the private-key signer.`);
+  }
+
+  return createPrivateKeySigner(privateKey);
+};
@@ -0,0 +1,228 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  concat,
+  createPublicClient,
+  encodeFunctionData,
+  encodePacked,
+  hashTypedData,
+  Hex,
+  http,
+  size,
+  zeroAddress,
+} from 'viem';
+import { SafeAbis } from '../../abis';
+import {
+  rpcUrls,
+  SAFE_MULTI_SEND_CALL_ONLY_ADDRESS,
+  SAFE_OPERATION,
+  SAFE_TX_BUILDER_VERSION,
+  SIGNER_TYPE,
+  SUPPORTED_CHAINS,
+} from '../constants';
+import { showText } from '../display';
+import { getViemChainByChainId } from '../getters';
+import {
+  ProjectSigner,
+  SafeTransaction,
+  SafeTransactionBuilderFile,
+  TransactionRequest,
+} from '../types';
+import { trackExportedTransaction } from '../unsignedTransactions';
+
+type SafeCall = Pick<TransactionRequest, 'to' | 'data'> & { value: bigint };
+
+const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * Encodes calls for MultiSend: operation, to, value, data length and data,
+ * packed back to back.
+ */
+export const encodeMultiSendData = (calls: SafeCall[]): Hex =>
+  concat(
+    calls.map((call) =>
+      encodePacked(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [
+          SAFE_OPERATION.CALL,
+          call.to,
+          call.value,
+          BigInt(size(call.data)),
+          call.data,
+        ],
+      ),
+    ),
+  );
+
+/**
+ * Builds the Safe transaction for `calls`. A single call is executed directly,
+ * several are batched through a delegate call to MultiSendCallOnly.
+ */
+export const buildSafeTransaction = (
+  calls: SafeCall[],
+  nonce: bigint,
+  multiSendAddress: Hex = SAFE_MULTI_SEND_CALL_ONLY_ADDRESS,
+): SafeTransaction => {
+  if (calls.length === 0) {
+    throw new Error('A Safe transaction needs at least one call.');
+  }
+
+  const call =
+    calls.length === 1
+      ? { ...calls[0], operation: SAFE_OPERATION.CALL }
+      : {
+          to: multiSendAddress,
+          value: BigInt(0),
+          data: encodeFunctionData({
+            abi: [SafeAbis.multiSend],
+            functionName: SafeAbis.multiSend.name,
+            args: [encodeMultiSendData(calls)],
+          }),
+          operation: SAFE_OPERATION.DELEGATE_CALL,
+        };
+
+  return {
+    ...call,
+    safeTxGas: BigInt(0),
+    baseGas: BigInt(0),
+    gasPrice: BigInt(0),
+    gasToken: zeroAddress,
+    refundReceiver: zeroAddress,
+    nonce,
+  };
+};
+
+/**
+ * Returns the hash Safe owners sign to confirm `safeTx`, the same value as
+ * `getTransactionHash` on Safe contracts v1.3.0 and later.
+ */
+export const getSafeTxHash = (
+  chainId: number,
+  safeAddress: Hex,
+  safeTx: SafeTransaction,
+): Hex =>
+  hashTypedData({
+    domain: { chainId, verifyingContract: safeAddress },
+    types: SAFE_TX_TYPES,
+    primaryType: 'SafeTx',
+    message: safeTx,
+  });
+
+const getSafeNonce = async (
+  chainId: SUPPORTED_CHAINS,
+  safeAddress: Hex,
+): Promise<bigint> => {
+  const client = createPublicClient({
+    chain: getViemChainByChainId(chainId),
+    transport: http(rpcUrls[chainId]),
+  });
+
+  return await client.readContract({
+    address: safeAddress,
+    abi: [SafeAbis.nonce],
+    functionName: SafeAbis.nonce.name,
+  });
+};
+
+/**
+ * Proposes transactions from a Safe instead of sending them. Every
+ * transaction of a command goes into one Safe Transaction Builder batch
+ * file under `<proposalDir>`, rewritten as calls are added.
+ *
+ * Without an explicit `nonce` the batch takes the Safe's on-chain nonce,
+ * which does not count proposals still queued in the Safe app.
+ */
+export const createSafeSigner = ({
+  safeAddress,
+  proposalDir,
+  multiSendAddress,
+  nonce: configuredNonce,
+}: {
+  safeAddress: Hex;
+  proposalDir: string;
+  multiSendAddress?: Hex;
+  nonce?: bigint;
+}): ProjectSigner => {
+  const createdAt = Date.now();
+  const command = process.env.MAGICDROP_CLI_CMD ?? 'batch';
+  const filePath = path.join(
+    proposalDir,
+    `${command}-${new Date(createdAt).toISOString().replace(/[:.]/g, '-')}.json`,
+  );
+  const calls: SafeCall[] = [];
+  let batchChainId: SUPPORTED_CHAINS | undefined;
+  let nonce = configuredNonce;
+
+  return {
+    type: SIGNER_TYPE.SAFE,
+    address: safeAddress,
+    sendTransaction: async ({ to, data, value = BigInt(0), chainId }) => {
+      if (batchChainId !== undefined && batchChainId !== chainId) {
+        throw new Error('A Safe batch can only hold calls on one chain.');
+      }
+      batchChainId = chainId;
+      nonce ??= await getSafeNonce(chainId, safeAddress);
+      const nonceWarning =
+        configuredNonce === undefined
+          ? `Nonce ${nonce} is the Safe's on-chain nonce and does not count queued proposals. Set signer.nonce in project.json if other transactions are pending.`
+          : undefined;
+      calls.push({ to, data, value });
+
+      const safeTx = buildSafeTransaction(calls, nonce, multiSendAddress);
+      const safeTxHash = getSafeTxHash(chainId, safeAddress, safeTx);
+      const file: SafeTransactionBuilderFile = {
+        version: '1.0',
+        chainId: String(chainId),
+        createdAt,
+        meta: {
+          name: `drop2 ${command}`,
+          description: [
+            `safeTxHash ${safeTxHash} at nonce ${nonce}`,
+            nonceWarning,
+          ]
+            .filter(Boolean)
+            .join('. '),
+          txBuilderVersion: SAFE_TX_BUILDER_VERSION,
+          createdFromSafeAddress: safeAddress,
+          createdFromOwnerAddress: '',
+          safeTxHash,
+          nonce: nonce.toString(),
+        },
+        transactions: calls.map((call) => ({
+          to: call.to,
+          value: call.value.toString(),
+          data: call.data,
+          contractMethod: null,
+          contractInputsValues: null,
+        })),
+      };
+
+      fs.mkdirSync(proposalDir, { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(file, null, 2));
+      showText(
+        `Safe batch ${filePath} (${calls.length} call(s)), safeTxHash: ${safeTxHash}`,
+        '',
+        false,
+        false,
+      );
+      if (nonceWarning && calls.length === 1) {
+        showText(nonceWarning, '', false, false);
+      }
+
+      return trackExportedTransaction(`${filePath}#${calls.length - 1}`);
+    },
+  };
+};
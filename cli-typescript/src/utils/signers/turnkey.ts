@@ -0,0 +1,20 @@
+import { Hex } from 'viem';
+import { SIGNER_TYPE } from '../constants';
+import { getMETurnkeyServiceClient } from '../turnkey';
+import { ProjectSigner } from '../types';
+
+/**
+ * Signs with the project wallet held by the hosted Turnkey service.
+ */
+export const createTurnkeySigner = async (
+  symbol: string,
+): Promise<ProjectSigner> => {
+  const meTurnkeyServiceClient = await getMETurnkeyServiceClient();
+  const { address } = await meTurnkeyServiceClient.getWallet(symbol);
+
+  return {
+    type: SIGNER_TYPE.TURNKEY,
+    address: address as Hex,
+    sendTransaction: (tx) => meTurnkeyServiceClient.sendTransaction(symbol, tx),
+  };
+};
@@ -0,0 +1,116 @@
+import {
+  Abi,
+  BaseError,
+  decodeErrorResult,
+  decodeFunctionData,
+  formatEther,
+  Hex,
+  isHex,
+  RawContractError,
+} from 'viem';
+import {
+  ADD_AUTHORIZED_MINTER_ABI,
+  APPLY_LIST_TO_COLLECTION_ABI,
+  APPLY_LIST_TO_COLLECTION_ABI_V5,
+  ERC1155M_ABIS,
+  ERC1155M_ERRORS_ABI,
+  ERC712M_ABIS,
+  MagicDropCloneFactoryAbis,
+  REMOVE_AUTHORIZED_MINTER_ABI,
+  SET_COSIGNER_ABI,
+  SET_TRANSFER_VALIDATOR_ABI,
+  SET_TRANSFERABLE_ABI,
+  TRANSFER_OWNERSHIP_ABI,
+  WITHDRAW_CONTRACT_BALANCE_ABI,
+} from '../abis';
+import { SUPPORTED_CHAINS } from './constants';
+import { getSymbolFromChainId } from './getters';
+
+// ERC1155M errors are a superset of the ERC721M ones
+const REVERT_ERRORS_ABI: Abi = ERC1155M_ERRORS_ABI;
+
+// every function the CLI sends, used to describe calls in dry runs
+const WRITE_FUNCTIONS_ABI = [
+  ...Object.values(ERC712M_ABIS),
+  ...Object.values(ERC1155M_ABIS),
+  MagicDropCloneFactoryAbis.createContract,
+  SET_TRANSFER_VALIDATOR_ABI,
+  APPLY_LIST_TO_COLLECTION_ABI,
+  APPLY_LIST_TO_COLLECTION_ABI_V5,
+  SET_COSIGNER_ABI,
+  WITHDRAW_CONTRACT_BALANCE_ABI,
+  ADD_AUTHORIZED_MINTER_ABI,
+  REMOVE_AUTHORIZED_MINTER_ABI,
+  TRANSFER_OWNERSHIP_ABI,
+  SET_TRANSFERABLE_ABI,
+] as Abi;
+
+const formatArg = (arg: unknown): string =>
+  JSON.stringify(arg, (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value,
+  );
+
+/**
+ * Finds the revert data in an RPC error, nodes return it either as the hex
+ * string or nested in an object.
+ */
+const getRevertData = (error: unknown): Hex | undefined => {
+  if (!(error instanceof BaseError)) return undefined;
+  const withData = error.walk(
+    (e) => e instanceof Error && 'data' in e,
+  ) as RawContractError | null;
+  const data =
+    typeof withData?.data === 'object' ? withData.data.data : withData?.data;
+  return isHex(data) ? data : undefined;
+};
+
+/**
+ * Explains why a call or gas estimate failed, decoding the MagicDrop custom
+ * errors as well as require messages and panics.
+ */
+export const getRevertReason = (error: unknown): string => {
+  const data = getRevertData(error);
+  if (data && data !== '0x') {
+    try {
+      const { errorName, args } = decodeErrorResult({
+        abi: REVERT_ERRORS_ABI,
+        data,
+      });
+      if (errorName === 'Error') return String(args?.[0]);
+      return `${errorName}(${(args ?? []).map(formatArg).join(', ')})`;
+    } catch {
+      return `unknown custom error ${data.slice(0, 10)}`;
+    }
+  }
+
+  if (error instanceof BaseError) return error.shortMessage;
+  return (error as Error)?.message ?? String(error);
+};
+
+/**
+ * Describes the state change a transaction makes, e.g.
+ * `setMintable(true) on 0x...`.
+ */
+export const describeCall = (
+  chainId: SUPPORTED_CHAINS,
+  to: Hex,
+  data: Hex,
+  value: bigint,
+): string => {
+  const payment = value
+    ? ` paying ${formatEther(value)} ${getSymbolFromChainId(chainId)}`
+    : '';
+  if (data === '0x') {
+    return `transfer ${formatEther(value)} ${getSymbolFromChainId(chainId)} to ${to}`;
+  }
+
+  try {
+    const { functionName, args } = decodeFunctionData({
+      abi: WRITE_FUNCTIONS_ABI,
+      data,
+    });
+    return `${functionName}(${(args ?? []).map(formatArg).join(', ')}) on ${to}${payment}`;
+  } catch {
+    return `call ${data.slice(0, 10)} on ${to}${payment}`;
+  }
+};
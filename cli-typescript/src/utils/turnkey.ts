@@ -3,22 +3,6 @@ import axios, { AxiosInstance } from 'axios';
 import { SUPPORTED_CHAINS } from './constants';
 import { authenticate } from './auth';
 
-export const getProjectSigner = async (
-  projectName: string,
-): Promise<{ signer: Hex }> => {
-  try {
-    const meTurnkeyServiceClient = await getMETurnkeyServiceClient();
-    const { address } = await meTurnkeyServiceClient.getWallet(projectName);
-
-    // Return the signer/address
-    return {
-      signer: address as Hex,
-    };
-  } catch (error: any) {
-    throw new Error(`Failed to fetch signer: ${error.message}`);
-  }
-};
-
 export type WalletInfo = {
   walletId: string;
   address: string;
@@ -1,5 +1,10 @@
 import { Hex } from 'viem';
-import { SUPPORTED_CHAINS, TOKEN_STANDARD } from './constants';
+import {
+  SAFE_OPERATION,
+  SIGNER_TYPE,
+  SUPPORTED_CHAINS,
+  TOKEN_STANDARD,
+} from './constants';
 import { ContractManager } from './ContractManager';
 import { getProjectStore } from './fileUtils';
 
@@ -16,8 +21,163 @@ export interface Deployment {
   contract_address: string;
   initial_owner: string;
   deployed_at: string;
+  // block of the deployment, where the status command starts reading logs
+  block_number?: string;
 }
 
+/**
+ * Signer backend of a project, set under `signer` in project.json.
+ * Projects without one use the hosted Turnkey wallet.
+ */
+export type SignerConfig =
+  | { type: SIGNER_TYPE.TURNKEY }
+  | {
+      type: SIGNER_TYPE.KEYSTORE;
+      // JSON V3 keystore, relative paths resolve from the project directory
+      keystorePath?: string;
+    }
+  | {
+      type: SIGNER_TYPE.PRIVATE_KEY;
+      // name of the env var holding the key, defaults to MAGICDROP_PRIVATE_KEY
+      privateKeyEnv?: string;
+    }
+  | {
+      type: SIGNER_TYPE.SAFE;
+      // defaults to MAGICDROP_SAFE_ADDRESS
+      safeAddress?: Hex;
+      // MultiSendCallOnly used for batches, for chains without the canonical one
+      multiSendAddress?: Hex;
+      // Safe nonce of the batch, for when proposals are already queued
+      nonce?: number;
+    };
+
+export type TransactionRequest = {
+  to: Hex;
+  data: Hex;
+  chainId: SUPPORTED_CHAINS;
+  value?: bigint;
+  gasLimit?: bigint;
+};
+
+export interface ProjectSigner {
+  type: SIGNER_TYPE;
+  address: Hex;
+  sendTransaction(tx: TransactionRequest): Promise<Hex>;
+}
+
+/**
+ * A transaction written by --unsigned instead of being sent. Values are
+ * decimal strings so that the file stays plain JSON.
+ */
+export type UnsignedTransaction = {
+  chainId: SUPPORTED_CHAINS;
+  from: Hex;
+  to: Hex;
+  data: Hex;
+  value: string;
+  gasLimit: string;
+  gasEstimated: boolean; // false when gasLimit is the fallback default
+  signedTransaction?: Hex; // added by the offline signer, read by broadcast
+};
+
+export type UnsignedTransactionFile = {
+  version: 1;
+  symbol: string;
+  command: string;
+  createdAt: string;
+  transactions: UnsignedTransaction[];
+};
+
+/**
+ * The transaction a Safe executes, as hashed for owner confirmations.
+ */
+export type SafeTransaction = {
+  to: Hex;
+  value: bigint;
+  data: Hex;
+  operation: SAFE_OPERATION;
+  safeTxGas: bigint;
+  baseGas: bigint;
+  gasPrice: bigint;
+  gasToken: Hex;
+  refundReceiver: Hex;
+  nonce: bigint;
+};
+
+/**
+ * Batch file format read by the Safe Transaction Builder app.
+ */
+export type SafeTransactionBuilderFile = {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: Hex;
+    createdFromOwnerAddress: string;
+    // not part of the format, written for owners to compare against
+    safeTxHash: Hex;
+    nonce: string;
+  };
+  transactions: {
+    to: Hex;
+    value: string;
+    data: Hex;
+    contractMethod: null;
+    contractInputsValues: null;
+  }[];
+};
+
+export type CollectionStageStatus = {
+  index: number;
+  // one entry per token ID, a single entry for ERC721
+  price: bigint[];
+  walletLimit: number[];
+  merkleRoot: Hex[];
+  maxStageSupply: number[];
+  stageMinted: bigint[];
+  startTimeUnixSeconds: bigint;
+  endTimeUnixSeconds: bigint;
+};
+
+export type CollectionTokenStatus = {
+  tokenId?: number; // ERC1155 only
+  maxMintableSupply?: bigint;
+  globalWalletLimit?: bigint;
+  totalSupply?: bigint;
+};
+
+/**
+ * On-chain state of a deployed collection. Fields the contract does not
+ * expose, or that could not be read, are left undefined.
+ */
+export type CollectionStatus = {
+  chainId: SUPPORTED_CHAINS;
+  contractAddress: Hex;
+  tokenStandard: TOKEN_STANDARD;
+  name?: string;
+  contractName?: string;
+  version?: string;
+  owner?: Hex;
+  stages?: CollectionStageStatus[];
+  tokens: CollectionTokenStatus[];
+  cosigner?: Hex;
+  timestampExpirySeconds?: bigint;
+  mintable?: boolean;
+  mintFee?: bigint;
+  mintCurrency?: Hex;
+  transferValidator?: Hex;
+  transferListId?: bigint;
+  frozen?: boolean;
+  setupLocked?: boolean;
+  balance?: bigint;
+  authorizedMinters?: Hex[];
+  // why the authorized minters could not be read
+  authorizedMintersError?: string;
+};
+
 export interface ERC721Collection {
   name: string;
   symbol: string;
@@ -36,6 +196,7 @@ export interface ERC721Collection {
   useERC721C: boolean;
   stages: ERC721Stage[];
   deployment?: Deployment;
+  signer?: SignerConfig;
 }
 
 export interface ERC1155Stage {
@@ -63,6 +224,7 @@ export interface ERC1155Collection {
   uri: string;
   stages: ERC1155Stage[];
   deployment?: Deployment;
+  signer?: SignerConfig;
 }
 
 export type Collection = ERC721Collection | ERC1155Collection;
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { Hex, keccak256, stringToHex } from 'viem';
+import { UNSIGNED_ENV } from './constants';
+import { getProjectStore } from './fileUtils';
+import { UnsignedTransaction, UnsignedTransactionFile } from './types';
+
+// placeholder hashes handed back for exported transactions in this run
+const exportedTransactions = new Set<Hex>();
+
+/**
+ * Returns the file --unsigned writes to, or undefined when transactions are
+ * sent. Without a path, a new file is created in the project's `unsigned`
+ * directory.
+ */
+export const getUnsignedExportPath = (symbol: string): string | undefined => {
+  const value = process.env[UNSIGNED_ENV];
+  if (!value) return undefined;
+  if (value !== 'true') return path.resolve(value);
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join(
+    getProjectStore(symbol).storeDir,
+    'unsigned',
+    `${process.env.MAGICDROP_CLI_CMD}-${timestamp}.json`,
+  );
+};
+
+/**
+ * Appends a transaction to an export file, creating it when needed.
+ * @returns A placeholder hash that stands in for the transaction hash.
+ */
+export const exportUnsignedTransaction = (
+  filePath: string,
+  symbol: string,
+  transaction: UnsignedTransaction,
+): Hex => {
+  const file: UnsignedTransactionFile = fs.existsSync(filePath)
+    ? JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    : {
+        version: 1,
+        symbol,
+        command: process.env.MAGICDROP_CLI_CMD ?? '',
+        createdAt: new Date().toISOString(),
+        transactions: [],
+      };
+
+  file.transactions.push(transaction);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2));
+
+  return trackExportedTransaction(
+    `${filePath}#${file.transactions.length - 1}`,
+  );
+};
+
+/**
+ * Records a transaction that was written somewhere instead of sent.
+ * @param id Unique name of the transaction, e.g. file path and index.
+ * @returns A placeholder hash that stands in for the transaction hash.
+ */
+export const trackExportedTransaction = (id: string): Hex => {
+  const hash = keccak256(stringToHex(id));
+  exportedTransactions.add(hash);
+  return hash;
+};
+
+export const isExportedTransaction = (txHash: string): boolean =>
+  exportedTransactions.has(txHash as Hex);
+
+/**
+ * Reads signed transactions for broadcast: either an export file whose
+ * entries carry `signedTransaction`, or a plain array of signed transactions.
+ */
+export const readSignedTransactions = (filePath: string): Hex[] => {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const content: UnsignedTransactionFile | Hex[] = JSON.parse(
+    fs.readFileSync(filePath, 'utf-8'),
+  );
+  const signedTransactions = Array.isArray(content)
+    ? content
+    : content.transactions?.map((tx, i) => {
+        if (!tx.signedTransaction) {
+          throw new Error(`Transaction ${i} has no signedTransaction.`);
+        }
+        return tx.signedTransaction;
+      });
+
+  if (!signedTransactions?.length) {
+    throw new Error(`No signed transactions found in ${filePath}`);
+  }
+  return signedTransactions;
+};
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.22;
+
+import {Cosignable} from "../common/Cosignable.sol";
+
+contract MockCosignable is Cosignable {
+    constructor(address cosigner) {
+        _setCosigner(cosigner);
+    }
+
+    function setCosigner(address cosigner) external override {
+        _setCosigner(cosigner);
+    }
+
+    function setTimestampExpirySeconds(uint256 timestampExpirySeconds) external override {
+        _setTimestampExpirySeconds(timestampExpirySeconds);
+    }
+}
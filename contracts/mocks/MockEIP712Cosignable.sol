@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.22;
+
+import {EIP712} from "solady/src/utils/EIP712.sol";
+import {SignatureCheckerLib} from "solady/src/utils/SignatureCheckerLib.sol";
+
+/// @notice Verifies cosign signatures in the EIP-712 mode of the cosign server
+contract MockEIP712Cosignable is EIP712 {
+    bytes32 private constant COSIGN_TYPEHASH = keccak256(
+        "Cosign(address minter,uint32 qty,bool waiveMintFee,address cosigner,uint256 timestamp,uint256 nonce)"
+    );
+
+    address private immutable _cosigner;
+
+    error InvalidCosignSignature();
+
+    constructor(address cosigner) {
+        _cosigner = cosigner;
+    }
+
+    function getCosignDigest(address minter, uint32 qty, bool waiveMintFee, uint256 timestamp, uint256 cosignNonce)
+        public
+        view
+        returns (bytes32)
+    {
+        return _hashTypedData(
+            keccak256(abi.encode(COSIGN_TYPEHASH, minter, qty, waiveMintFee, _cosigner, timestamp, cosignNonce))
+        );
+    }
+
+    function assertValidCosign(
+        address minter,
+        uint32 qty,
+        uint256 timestamp,
+        bytes memory signature,
+        uint256 cosignNonce
+    ) public view returns (bool) {
+        if (SignatureCheckerLib.isValidSignatureNow(
+                _cosigner, getCosignDigest(minter, qty, true, timestamp, cosignNonce), signature
+            )) {
+            return true;
+        }
+
+        if (SignatureCheckerLib.isValidSignatureNow(
+                _cosigner, getCosignDigest(minter, qty, false, timestamp, cosignNonce), signature
+            )) {
+            return false;
+        }
+
+        revert InvalidCosignSignature();
+    }
+
+    function _domainNameAndVersion() internal pure override returns (string memory name, string memory version) {
+        name = "MagicDropCosign";
+        version = "1";
+    }
+}
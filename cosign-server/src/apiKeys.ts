@@ -0,0 +1,139 @@
+import { toChecksumAddress } from './collections';
+import { ApiKeyRole, IApiKey, IApiKeyRequest, IKeyValueStore } from './types';
+
+const API_KEY_PREFIX = 'apikey:v1:';
+
+export const API_KEY_ROLES: ApiKeyRole[] = [
+  'read-only',
+  'collection-editor',
+  'super-admin',
+];
+
+const toHex = (bytes: Uint8Array) =>
+  [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+
+const randomHex = (length: number) =>
+  toHex(crypto.getRandomValues(new Uint8Array(length)));
+
+const hashKey = async (key: string) =>
+  toHex(
+    new Uint8Array(
+      await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)),
+    ),
+  );
+
+/**
+ * Returns true when `apiKey` may act on `collectionContract`. Only
+ * collection-editor keys are scoped.
+ */
+export const canAccessCollection = (
+  apiKey: IApiKey,
+  collectionContract: string,
+) =>
+  apiKey.role !== 'collection-editor' ||
+  !!apiKey.collections?.some(
+    (address) => address.toLowerCase() === collectionContract.toLowerCase(),
+  );
+
+/**
+ * Returns true when the role of `apiKey` is at least `role`.
+ */
+export const hasRole = (apiKey: IApiKey, role: ApiKeyRole) =>
+  API_KEY_ROLES.indexOf(apiKey.role) >= API_KEY_ROLES.indexOf(role);
+
+/**
+ * Validates an API key submitted by an admin. Throws with a 400 status when a
+ * field is malformed.
+ */
+export const validateApiKeyRequest = (
+  payload: IApiKeyRequest,
+): IApiKeyRequest => {
+  const invalid = (message: string) =>
+    Object.assign(new Error(`Invalid API key: ${message}`), { status: 400 });
+
+  if (typeof payload.name !== 'string' || payload.name.length === 0) {
+    throw invalid('name is required');
+  }
+  if (!API_KEY_ROLES.includes(payload.role)) {
+    throw invalid(`role must be one of ${API_KEY_ROLES.join(', ')}`);
+  }
+  if (payload.role !== 'collection-editor') {
+    if (payload.collections !== undefined) {
+      throw invalid('collections only apply to the collection-editor role');
+    }
+    return { name: payload.name, role: payload.role };
+  }
+  if (!Array.isArray(payload.collections) || payload.collections.length === 0) {
+    throw invalid('a collection-editor needs at least one collection');
+  }
+  return {
+    name: payload.name,
+    role: payload.role,
+    collections: payload.collections.map(toChecksumAddress),
+  };
+};
+
+/**
+ * Creates an API key and stores its SHA-256 hash. Returns the record along
+ * with the key, which cannot be read back afterwards.
+ */
+export const createApiKey = async (
+  kv: IKeyValueStore,
+  payload: IApiKeyRequest,
+  now: number,
+): Promise<{ key: string; apiKey: IApiKey }> => {
+  const key = `mdk_${randomHex(32)}`;
+  const apiKey: IApiKey = { ...payload, id: randomHex(8), createdAt: now };
+  await kv.put(API_KEY_PREFIX + (await hashKey(key)), JSON.stringify(apiKey), {
+    metadata: apiKey,
+  });
+  return { key, apiKey };
+};
+
+/**
+ * Looks up the record of an API key, or undefined when it does not exist or
+ * was revoked.
+ */
+export const findApiKey = async (
+  kv: IKeyValueStore,
+  key: string,
+): Promise<IApiKey | undefined> => {
+  if (!key) return undefined;
+  const apiKey = await kv.get<IApiKey>(
+    API_KEY_PREFIX + (await hashKey(key)),
+    'json',
+  );
+  return apiKey ?? undefined;
+};
+
+export const listApiKeys = async (
+  kv: IKeyValueStore,
+  cursor?: string,
+): Promise<{ keys: IApiKey[]; cursor?: string }> => {
+  const res = await kv.list<IApiKey>({ prefix: API_KEY_PREFIX, cursor });
+  const keys = res.keys
+    .map((key) => key.metadata)
+    .filter((apiKey): apiKey is IApiKey => !!apiKey);
+  return { keys, cursor: res.list_complete ? undefined : res.cursor };
+};
+
+/**
+ * Deletes the API key with the given ID. Returns false when no key matches.
+ * Keys are stored by hash, so this scans every key.
+ */
+export const revokeApiKey = async (
+  kv: IKeyValueStore,
+  id: string,
+): Promise<boolean> => {
+  let cursor: string | undefined;
+  do {
+    const res = await kv.list<IApiKey>({ prefix: API_KEY_PREFIX, cursor });
+    const match = res.keys.find((key) => key.metadata?.id === id);
+    if (match) {
+      await kv.delete(match.name);
+      return true;
+    }
+    cursor = res.list_complete ? undefined : res.cursor;
+  } while (cursor);
+  return false;
+};
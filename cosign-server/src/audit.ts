@@ -0,0 +1,70 @@
+import { ILogSink } from './logger';
+import { CosignDecision, ICosignAuditEntry, IKeyValueStore } from './types';
+
+/**
+ * Message of the log entries that record a cosign decision.
+ */
+export const AUDIT_MESSAGE = 'Cosign_Decision';
+
+const AUDIT_PREFIX = 'audit:v1:';
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Keys sort by collection, then newest first, since KV lists keys in
+ * ascending order.
+ */
+const auditKey = (entry: ICosignAuditEntry) => {
+  const reversed = String(MAX_TIMESTAMP - entry.timestamp).padStart(13, '0');
+  const [suffix] = crypto.getRandomValues(new Uint32Array(1));
+  return `${AUDIT_PREFIX}${entry.collection.toLowerCase()}:${reversed}:${suffix}`;
+};
+
+/**
+ * Persists cosign decisions to KV. Other log entries are ignored.
+ */
+export const createAuditSink = (kv: IKeyValueStore): ILogSink => ({
+  write: async ({ message, status, ...fields }) => {
+    if (message !== AUDIT_MESSAGE) return;
+    const entry = fields as unknown as ICosignAuditEntry;
+    // entries are listed by collection, requests without one are not kept
+    if (!entry.collection) return;
+    await kv.put(auditKey(entry), JSON.stringify(entry), { metadata: entry });
+  },
+});
+
+export const listAuditEntries = async (
+  kv: IKeyValueStore,
+  options: {
+    collection?: string;
+    decision?: CosignDecision;
+    waiveMintFee?: boolean;
+    cursor?: string;
+    limit?: number;
+  },
+): Promise<{ entries: ICosignAuditEntry[]; cursor?: string }> => {
+  const res = await kv.list<ICosignAuditEntry>({
+    prefix: options.collection
+      ? `${AUDIT_PREFIX}${options.collection.toLowerCase()}:`
+      : AUDIT_PREFIX,
+    cursor: options.cursor,
+    limit: Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+    ),
+  });
+  // filters apply within the page, so a page may hold fewer than `limit`
+  const entries = res.keys
+    .map((key) => key.metadata)
+    .filter((entry): entry is ICosignAuditEntry => !!entry)
+    .filter(
+      (entry) =>
+        (options.decision === undefined ||
+          entry.decision === options.decision) &&
+        (options.waiveMintFee === undefined ||
+          entry.waiveMintFee === options.waiveMintFee),
+    );
+  return { entries, cursor: res.list_complete ? undefined : res.cursor };
+};
@@ -3,8 +3,13 @@
  */
 
 declare const COSIGN_PRIVATE_KEY: string;
+declare const COSIGN_PRIVATE_KEYS: string; // JSON object of key ID to private key
+declare const COSIGN_SIGNERS: string; // JSON object of key ID to signer config
 declare const DATADOG_SK: string;
+declare const LOG_SINKS: string; // comma separated: datadog, console, audit, metrics
 declare const ADMIN_KEY: string;
+declare const RPC_URLS: string; // JSON object of chain ID to JSON-RPC URL
+declare const ALLOWED_ORIGINS: string; // comma separated CORS origins
 
 /**
  * COLLECTIONS -> CloudFlare binding to KV Namespace
@@ -0,0 +1,179 @@
+import {
+  getCollection,
+  listCollections,
+  putCollection,
+  validateCollection,
+} from './collections';
+import {
+  ICollection,
+  ICollectionBundle,
+  ICollectionRequest,
+  IFieldChange,
+  IImportItem,
+  IImportResult,
+  IKeyValueStore,
+  ImportConflictStrategy,
+} from './types';
+
+export const BUNDLE_VERSION = 1;
+
+export const IMPORT_CONFLICT_STRATEGIES: ImportConflictStrategy[] = [
+  'skip',
+  'overwrite',
+  'fail',
+];
+
+const httpError = (status: number, message: string) =>
+  Object.assign(new Error(message), { status });
+
+const toCollectionRequest = ({
+  schemaVersion,
+  version,
+  createdAt,
+  updatedAt,
+  ...config
+}: ICollection): ICollectionRequest => config;
+
+/**
+ * JSON with sorted object keys, so that equal configs compare equal whatever
+ * order their fields were written in.
+ */
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]]),
+        )
+      : v,
+  );
+
+/**
+ * Lists the top level fields that differ between two collection configs.
+ */
+const diffCollections = (
+  before: ICollectionRequest,
+  after: ICollectionRequest,
+): IFieldChange[] => {
+  const fields = [
+    ...new Set([...Object.keys(before), ...Object.keys(after)]),
+  ].sort() as (keyof ICollectionRequest)[];
+  return fields
+    .filter(
+      (field) => canonicalJson(before[field]) !== canonicalJson(after[field]),
+    )
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+/**
+ * Returns every collection as a bundle another worker can import.
+ */
+export const exportCollections = async (
+  kv: IKeyValueStore,
+  now: number,
+): Promise<ICollectionBundle> => {
+  const collections: ICollectionRequest[] = [];
+  let cursor: string | undefined;
+  do {
+    const res = await listCollections(kv, { cursor, limit: 1000 });
+    collections.push(...res.collections.map(toCollectionRequest));
+    cursor = res.cursor;
+  } while (cursor);
+  return { version: BUNDLE_VERSION, exportedAt: now, collections };
+};
+
+/**
+ * Validates a bundle and returns its collections normalized. Throws with a
+ * 400 status naming the first entry that is malformed, or whose cosigner keys
+ * or eligibility check RPC URLs are missing from this worker's config.
+ */
+export const validateBundle = (
+  bundle: ICollectionBundle,
+  keyIds: string[],
+  rpcUrls: Record<string, string>,
+): ICollectionRequest[] => {
+  if (typeof bundle !== 'object' || bundle === null) {
+    throw httpError(400, 'Expected a collection bundle');
+  }
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw httpError(400, `Unsupported bundle version ${bundle.version}`);
+  }
+  if (!Array.isArray(bundle.collections)) {
+    throw httpError(400, 'collections must be an array');
+  }
+
+  const seen = new Set<string>();
+  return bundle.collections.map((entry, i) => {
+    let collection: ICollectionRequest;
+    try {
+      collection = validateCollection(entry, keyIds, rpcUrls);
+    } catch (e: any) {
+      throw httpError(e.status || 400, `collections[${i}]: ${e.message}`);
+    }
+    const key = `${collection.collectionContract}:${collection.chainId}`;
+    if (seen.has(key)) {
+      throw httpError(
+        400,
+        `collections[${i}]: ${collection.collectionContract} on chain ${collection.chainId} appears twice`,
+      );
+    }
+    seen.add(key);
+    return collection;
+  });
+};
+
+/**
+ * Imports a validated bundle. Collections that exist with a different config
+ * are handled by `conflict`: `skip` leaves them, `overwrite` replaces them and
+ * `fail` writes nothing when there is any. With `dryRun` only the plan and
+ * its diffs are returned.
+ */
+export const importCollections = async (
+  kv: IKeyValueStore,
+  collections: ICollectionRequest[],
+  options: { conflict: ImportConflictStrategy; dryRun: boolean },
+  now: number,
+): Promise<IImportResult> => {
+  const plan: { item: IImportItem; existing: ICollection | null }[] = [];
+  for (const collection of collections) {
+    const { collectionContract, chainId } = collection;
+    const existing = await getCollection(kv, collectionContract, chainId);
+    if (!existing) {
+      plan.push({
+        item: { collectionContract, chainId, action: 'create' },
+        existing,
+      });
+      continue;
+    }
+
+    const changes = diffCollections(toCollectionRequest(existing), collection);
+    const action =
+      changes.length === 0
+        ? 'unchanged'
+        : options.conflict === 'fail'
+          ? 'conflict'
+          : options.conflict;
+    plan.push({
+      item: { collectionContract, chainId, action, changes },
+      existing,
+    });
+  }
+
+  const items = plan.map(({ item }) => item);
+  const applied =
+    !options.dryRun && !items.some((item) => item.action === 'conflict');
+  if (applied) {
+    for (const [i, { item, existing }] of plan.entries()) {
+      if (item.action !== 'create' && item.action !== 'overwrite') continue;
+      await putCollection(kv, {
+        ...collections[i],
+        schemaVersion: 2,
+        version: existing ? existing.version + 1 : 1,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    }
+  }
+  return { dryRun: options.dryRun, applied, conflict: options.conflict, items };
+};
@@ -0,0 +1,282 @@
+import { getAddress } from '@ethersproject/address';
+import { normalizeOrigins, recordCollectionOrigins } from './cors';
+import { normalizeMinterAuth } from './minterAuth';
+import { normalizePolicy } from './policy';
+import { normalizeRateLimit } from './rateLimit';
+import { SIGNING_MODES } from './signing';
+import { normalizeWindows } from './windows';
+import { ICollection, ICollectionRequest, IKeyValueStore } from './types';
+
+const V1_PREFIX = 'collection:v1:';
+const V2_PREFIX = 'collection:v2:';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+
+// every field of ICollectionRequest, anything else is dropped on save
+const COLLECTION_FIELDS: Record<keyof ICollectionRequest, true> = {
+  collectionContract: true,
+  chainId: true,
+  startTimeUnixSeconds: true,
+  endTimeUnixSeconds: true,
+  policy: true,
+  windows: true,
+  rateLimit: true,
+  cosignerKeyId: true,
+  previousCosignerKeyId: true,
+  cosignerActivatesAt: true,
+  eligibilityChecks: true,
+  signingMode: true,
+  minterAuth: true,
+  allowedOrigins: true,
+};
+
+export const isCollectionField = (
+  field: string,
+): field is keyof ICollectionRequest =>
+  Object.prototype.hasOwnProperty.call(COLLECTION_FIELDS, field);
+
+const collectionKey = (address: string, chainId: number) =>
+  `${V2_PREFIX}${address.toLowerCase()}:${chainId}`;
+
+const httpError = (status: number, message: string) =>
+  Object.assign(new Error(message), { status });
+
+/**
+ * Returns the checksummed form of an address. Throws with a 400 status when
+ * the address is malformed or its mixed-case checksum does not match.
+ */
+export const toChecksumAddress = (address: unknown): string => {
+  try {
+    if (typeof address !== 'string') throw new Error();
+    return getAddress(address);
+  } catch {
+    throw httpError(400, `Invalid address: ${address}`);
+  }
+};
+
+export const toChainId = (chainId: unknown): number => {
+  const value = typeof chainId === 'string' ? Number(chainId) : chainId;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw httpError(400, `Invalid chainId: ${chainId}`);
+  }
+  return value;
+};
+
+/**
+ * Validates a full collection payload and returns it normalized. `keyIds` are
+ * the keyring entries a collection may reference, `rpcUrls` the chains
+ * eligibility checks can read.
+ */
+export const validateCollection = (
+  payload: ICollectionRequest,
+  keyIds: string[],
+  rpcUrls: Record<string, string>,
+): ICollectionRequest => {
+  const { startTimeUnixSeconds: start, endTimeUnixSeconds: end } = payload;
+  for (const [field, value] of [
+    ['startTimeUnixSeconds', start],
+    ['endTimeUnixSeconds', end],
+  ] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw httpError(400, `${field} must be a unix timestamp in seconds`);
+    }
+  }
+  if (start !== undefined && end !== undefined && start >= end) {
+    throw httpError(
+      400,
+      'startTimeUnixSeconds must be before endTimeUnixSeconds',
+    );
+  }
+  for (const field of ['cosignerKeyId', 'previousCosignerKeyId'] as const) {
+    const keyId = payload[field];
+    if (keyId !== undefined && !keyIds.includes(keyId)) {
+      throw httpError(400, `${field} ${keyId} is not in the keyring`);
+    }
+  }
+  if (
+    payload.eligibilityChecks !== undefined &&
+    typeof payload.eligibilityChecks !== 'boolean'
+  ) {
+    throw httpError(400, 'eligibilityChecks must be a boolean');
+  }
+  if (payload.eligibilityChecks && !rpcUrls[String(payload.chainId)]) {
+    throw httpError(
+      400,
+      `eligibilityChecks needs an RPC URL for chain ${payload.chainId}`,
+    );
+  }
+  if (
+    payload.signingMode !== undefined &&
+    !SIGNING_MODES.includes(payload.signingMode)
+  ) {
+    throw httpError(
+      400,
+      `signingMode must be one of ${SIGNING_MODES.join(', ')}`,
+    );
+  }
+  if (
+    payload.cosignerActivatesAt !== undefined &&
+    (!Number.isInteger(payload.cosignerActivatesAt) ||
+      payload.cosignerActivatesAt < 0)
+  ) {
+    throw httpError(
+      400,
+      'cosignerActivatesAt must be a unix timestamp in seconds',
+    );
+  }
+
+  return {
+    ...(Object.fromEntries(
+      Object.entries(payload).filter(([field]) => isCollectionField(field)),
+    ) as ICollectionRequest),
+    collectionContract: toChecksumAddress(payload.collectionContract),
+    chainId: toChainId(payload.chainId),
+    policy: payload.policy ? normalizePolicy(payload.policy) : undefined,
+    windows: payload.windows ? normalizeWindows(payload.windows) : undefined,
+    rateLimit: payload.rateLimit
+      ? normalizeRateLimit(payload.rateLimit)
+      : undefined,
+    minterAuth: payload.minterAuth
+      ? normalizeMinterAuth(payload.minterAuth)
+      : undefined,
+    allowedOrigins: payload.allowedOrigins
+      ? normalizeOrigins(payload.allowedOrigins)
+      : undefined,
+  };
+};
+
+/**
+ * Upgrades a `collection:v1:` record to the v2 schema on the given chain.
+ */
+export const migrateV1Record = (
+  record: Omit<ICollectionRequest, 'chainId'>,
+  chainId: number,
+  now: number,
+): ICollection => ({
+  ...record,
+  collectionContract: toChecksumAddress(record.collectionContract),
+  chainId,
+  schemaVersion: 2,
+  version: 1,
+  createdAt: now,
+  updatedAt: now,
+});
+
+const readV2 = async (kv: IKeyValueStore, address: string, chainId: number) =>
+  kv.get<ICollection>(collectionKey(address, chainId), 'json');
+
+const readV1 = async (kv: IKeyValueStore, address: string) =>
+  kv.get<Omit<ICollectionRequest, 'chainId'>>(
+    `${V1_PREFIX}${address.toLowerCase()}`,
+    'json',
+  );
+
+/**
+ * Reads a collection on a chain. A collection only stored under the v1
+ * schema is served on every chain, as v1 did, until `/collections/migrate`
+ * registers it on the chains it is deployed to.
+ */
+export const getCollection = async (
+  kv: IKeyValueStore,
+  address: string,
+  chainId: number,
+): Promise<ICollection | null> => {
+  const record = await readV2(kv, address, chainId);
+  if (record) return record;
+
+  const legacy = await readV1(kv, address);
+  if (!legacy) return null;
+  return migrateV1Record(legacy, chainId, Math.floor(Date.now() / 1000));
+};
+
+/**
+ * Returns every chain a collection address is registered on.
+ */
+export const getCollectionChainIds = async (
+  kv: IKeyValueStore,
+  address: string,
+): Promise<number[]> => {
+  const res = await kv.list({
+    prefix: `${V2_PREFIX}${address.toLowerCase()}:`,
+  });
+  return res.keys.map((key) => Number(key.name.split(':').pop()));
+};
+
+export const putCollection = async (
+  kv: IKeyValueStore,
+  collection: ICollection,
+) => {
+  await kv.put(
+    collectionKey(collection.collectionContract, collection.chainId),
+    JSON.stringify(collection),
+  );
+  if (collection.allowedOrigins) {
+    await recordCollectionOrigins(kv, collection.allowedOrigins);
+  }
+};
+
+export const deleteCollection = async (
+  kv: IKeyValueStore,
+  address: string,
+  chainId: number,
+) => {
+  await kv.delete(collectionKey(address, chainId));
+};
+
+export const listCollections = async (
+  kv: IKeyValueStore,
+  options: { cursor?: string; limit?: number },
+): Promise<{ collections: ICollection[]; cursor?: string }> => {
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, options.limit || DEFAULT_PAGE_SIZE),
+  );
+  const res = await kv.list({
+    prefix: V2_PREFIX,
+    cursor: options.cursor,
+    limit,
+  });
+  const records = await Promise.all(
+    res.keys.map((key) => kv.get<ICollection>(key.name, 'json')),
+  );
+  return {
+    collections: records.filter((r): r is ICollection => !!r),
+    cursor: res.list_complete ? undefined : res.cursor,
+  };
+};
+
+/**
+ * Migrates every remaining `collection:v1:` record to the v2 schema. v1
+ * records carry no chain, so the admin names the chains each one is
+ * registered on. Existing v2 records are left untouched.
+ */
+export const migrateCollections = async (
+  kv: IKeyValueStore,
+  chainIds: number[],
+): Promise<{ collectionContract: string; chainId: number }[]> => {
+  const now = Math.floor(Date.now() / 1000);
+  const migrated: { collectionContract: string; chainId: number }[] = [];
+  let cursor: string | undefined;
+  do {
+    const res = await kv.list({ prefix: V1_PREFIX, cursor });
+    for (const key of res.keys) {
+      const legacy = await kv.get<ICollectionRequest>(key.name, 'json');
+      if (!legacy) continue;
+      for (const chainId of chainIds) {
+        if (await readV2(kv, legacy.collectionContract, chainId)) {
+          continue;
+        }
+        const collection = migrateV1Record(legacy, chainId, now);
+        await putCollection(kv, collection);
+        migrated.push({
+          collectionContract: collection.collectionContract,
+          chainId,
+        });
+      }
+      await kv.delete(key.name);
+    }
+    cursor = res.list_complete ? undefined : res.cursor;
+  } while (cursor);
+  return migrated;
+};
@@ -0,0 +1,55 @@
+import { DEFAULT_KEY_ID } from './keyring';
+import { ICosignServerConfig, SignerConfig } from './types';
+
+const DEFAULT_LOG_SINKS = 'datadog,audit';
+const DEFAULT_ALLOWED_ORIGINS = '*';
+
+/**
+ * Builds the server config from environment variables, as set by Worker
+ * bindings or `process.env`:
+ *
+ * - ADMIN_KEY: value of the `x-admin-key` header for admin routes
+ * - COSIGN_PRIVATE_KEY: private key registered under the 'default' key ID
+ * - COSIGN_PRIVATE_KEYS: JSON object of key ID to private key
+ * - COSIGN_SIGNERS: JSON object of key ID to signer config, for KMS and
+ *   remote signers
+ * - RPC_URLS: JSON object of chain ID to JSON-RPC URL
+ * - DATADOG_SK: Datadog API key
+ * - LOG_SINKS: comma separated sinks among datadog, console, audit and
+ *   metrics, defaults to datadog and audit. metrics rewrites one KV key per
+ *   collection on every cosign, enable it for low traffic collections only
+ * - ALLOWED_ORIGINS: comma separated CORS origins, '*' allows every origin
+ */
+export const loadConfig = (
+  env: Record<string, string | undefined>,
+): ICosignServerConfig => {
+  const privateKeys: Record<string, string> = {};
+  if (env.COSIGN_PRIVATE_KEY) {
+    privateKeys[DEFAULT_KEY_ID] = env.COSIGN_PRIVATE_KEY;
+  }
+  if (env.COSIGN_PRIVATE_KEYS) {
+    Object.assign(privateKeys, JSON.parse(env.COSIGN_PRIVATE_KEYS));
+  }
+  const signers: Record<string, SignerConfig> = {};
+  for (const [keyId, privateKey] of Object.entries(privateKeys)) {
+    signers[keyId] = { type: 'local', privateKey };
+  }
+  if (env.COSIGN_SIGNERS) {
+    Object.assign(signers, JSON.parse(env.COSIGN_SIGNERS));
+  }
+
+  return {
+    adminKey: env.ADMIN_KEY ?? '',
+    signers,
+    rpcUrls: env.RPC_URLS ? JSON.parse(env.RPC_URLS) : {},
+    datadogApiKey: env.DATADOG_SK || undefined,
+    logSinks: (env.LOG_SINKS || DEFAULT_LOG_SINKS)
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0),
+    allowedOrigins: (env.ALLOWED_ORIGINS || DEFAULT_ALLOWED_ORIGINS)
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter((origin) => origin.length > 0),
+  };
+};
@@ -0,0 +1,83 @@
+import { IKeyValueStore } from './types';
+
+const ORIGIN_PREFIX = 'cors:v1:';
+
+const ALLOWED_METHODS = 'GET,HEAD,POST,PUT,PATCH,DELETE,OPTIONS';
+const ALLOWED_HEADERS = 'Content-Type,If-Match,x-admin-key';
+const EXPOSED_HEADERS = 'Retry-After,ETag';
+
+/**
+ * Returns true when `origin` matches an entry of `allowedOrigins`, where '*'
+ * matches every origin.
+ */
+export const isOriginAllowed = (origin: string, allowedOrigins: string[]) =>
+  allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+
+/**
+ * Validates a list of origins submitted by an admin. Throws with a 400 status
+ * unless every entry is '*' or a bare origin such as `https://mint.xyz`.
+ */
+export const normalizeOrigins = (origins: unknown): string[] => {
+  const invalid = (origin: unknown) =>
+    Object.assign(new Error(`Invalid origin: ${origin}`), { status: 400 });
+
+  if (!Array.isArray(origins)) {
+    throw Object.assign(new Error('allowedOrigins must be an array'), {
+      status: 400,
+    });
+  }
+  return origins.map((origin) => {
+    if (origin === '*') return origin;
+    try {
+      if (typeof origin !== 'string') throw new Error();
+      const { origin: parsed } = new URL(origin);
+      if (parsed !== origin.toLowerCase().replace(/\/$/, '')) {
+        throw new Error();
+      }
+      return parsed;
+    } catch {
+      throw invalid(origin);
+    }
+  });
+};
+
+/**
+ * Remembers that a collection allows `origins`, so that preflight requests,
+ * which do not say which collection they are for, can be answered. Entries
+ * are never removed: a stale one only lets a preflight through, the cosign
+ * request itself is still checked against its collection.
+ */
+export const recordCollectionOrigins = async (
+  kv: IKeyValueStore,
+  origins: string[],
+) => {
+  await Promise.all(
+    origins
+      .filter((origin) => origin !== '*')
+      .map((origin) => kv.put(ORIGIN_PREFIX + origin, '1')),
+  );
+};
+
+export const isCollectionOrigin = async (
+  kv: IKeyValueStore,
+  origin: string,
+): Promise<boolean> => (await kv.get(ORIGIN_PREFIX + origin)) !== null;
+
+/**
+ * CORS headers granting `origin` when it is allowed. Requests without an
+ * Origin header do not come from a browser and are granted '*'.
+ */
+export const getCorsHeaders = (
+  origin: string | null,
+  allowed: boolean,
+): Record<string, string> => {
+  if (!allowed) return { Vary: 'Origin' };
+  return {
+    'Access-Control-Allow-Origin': origin ?? '*',
+    'Access-Control-Allow-Methods': ALLOWED_METHODS,
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+    'Access-Control-Max-Age': '86400',
+    Vary: 'Origin',
+  };
+};
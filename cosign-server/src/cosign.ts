@@ -0,0 +1,377 @@
+import { isAddress } from '@ethersproject/address';
+import { getCollection, getCollectionChainIds } from './collections';
+import { isOriginAllowed } from './cors';
+import {
+  checkEligibility,
+  getCosignNonce,
+  resolveTimestampExpiry,
+} from './eligibility';
+import { DEFAULT_KEY_ID, IKeyring, resolveCosignerKeyId } from './keyring';
+import { verifyMinterAuth } from './minterAuth';
+import { isNonceUsed, isValidNonce, recordNonce } from './nonces';
+import { evaluatePolicy, getCosignedQty, setCosignedQty } from './policy';
+import { checkRateLimit } from './rateLimit';
+import { evaluateWindow, findActiveWindow } from './windows';
+import { signCosign } from './signing';
+import {
+  ICosignRequest,
+  ICosignResponse,
+  IKeyValueStore,
+  IRateLimitConfig,
+} from './types';
+
+export interface ICosignContext {
+  kv: IKeyValueStore;
+  keyring: IKeyring;
+  rpcUrls: Record<string, string>; // chain ID to JSON-RPC URL
+  allowedOrigins: string[]; // for collections without their own list
+}
+
+export interface ICosignClient {
+  ip: string | null;
+  origin: string | null; // set by browsers only
+}
+
+export interface ICosignRejection {
+  decision: 'rejected' | 'error';
+  status: number;
+  error: string;
+  message: string;
+  headers?: Record<string, string>;
+  nonce?: number;
+  cosigner?: string;
+}
+
+export type CosignOutcome =
+  | { decision: 'signed'; response: ICosignResponse }
+  | ICosignRejection;
+
+/**
+ * Quantities and nonces cosigned earlier in the same batch. They are applied
+ * on top of KV so that later items see them without waiting for KV writes to
+ * become visible. Each item takes its own rate limit tokens.
+ */
+export interface ICosignBatch {
+  cosignedQty: Map<string, number>;
+  nonces: Set<string>;
+}
+
+export const createCosignBatch = (): ICosignBatch => ({
+  cosignedQty: new Map(),
+  nonces: new Set(),
+});
+
+const reject = (
+  status: number,
+  error: string,
+  message: string,
+  extra: Pick<ICosignRejection, 'headers' | 'nonce' | 'cosigner'> = {},
+): ICosignRejection => ({
+  decision: 'rejected',
+  status,
+  error,
+  message,
+  ...extra,
+});
+
+/**
+ * Runs every check on a cosign request and signs it when all of them pass.
+ * `timestamp` is the unix timestamp in seconds that goes into the signature.
+ */
+export const processCosignRequest = async (
+  { kv, keyring, rpcUrls, allowedOrigins }: ICosignContext,
+  payload: ICosignRequest,
+  client: ICosignClient,
+  timestamp: number,
+  batch?: ICosignBatch,
+): Promise<CosignOutcome> => {
+  if (typeof payload.minter !== 'string' || !isAddress(payload.minter)) {
+    return reject(400, 'INVALID_MINTER', 'minter must be an address');
+  }
+  if (
+    typeof payload.collectionContract !== 'string' ||
+    !isAddress(payload.collectionContract)
+  ) {
+    return reject(
+      400,
+      'INVALID_COLLECTION',
+      'collectionContract must be an address',
+    );
+  }
+  if (!Number.isInteger(payload.chainId) || payload.chainId <= 0) {
+    return reject(
+      400,
+      'INVALID_CHAIN_ID',
+      'chainId must be a positive integer',
+    );
+  }
+
+  const collection = await getCollection(
+    kv,
+    payload.collectionContract,
+    payload.chainId,
+  );
+  if (!collection) {
+    const chainIds = await getCollectionChainIds(
+      kv,
+      payload.collectionContract,
+    );
+    if (chainIds.length > 0) {
+      return reject(
+        403,
+        'CHAIN_NOT_REGISTERED',
+        `Collection is not registered for chain ${payload.chainId}`,
+      );
+    }
+    return reject(404, 'COLLECTION_NOT_FOUND', 'Collection not found');
+  }
+  if (
+    client.origin &&
+    !isOriginAllowed(client.origin, collection.allowedOrigins ?? allowedOrigins)
+  ) {
+    return reject(
+      403,
+      'ORIGIN_NOT_ALLOWED',
+      `Origin ${client.origin} may not request cosigns for this collection`,
+    );
+  }
+  if (
+    (collection.startTimeUnixSeconds &&
+      timestamp < collection.startTimeUnixSeconds) ||
+    (collection.endTimeUnixSeconds && timestamp > collection.endTimeUnixSeconds)
+  ) {
+    return reject(403, 'COLLECTION_NOT_ACTIVE', 'Collection not active');
+  }
+  const activeWindow = collection.windows
+    ? findActiveWindow(collection.windows, timestamp)
+    : undefined;
+  if (collection.windows && !activeWindow) {
+    return reject(403, 'NO_ACTIVE_WINDOW', 'No cosign window is open');
+  }
+
+  const rateLimited = async (
+    scope: keyof IRateLimitConfig,
+    id: string,
+  ): Promise<ICosignRejection | undefined> => {
+    const retryAfter = await checkRateLimit(
+      kv,
+      payload.collectionContract,
+      collection.rateLimit,
+      scope,
+      id,
+      timestamp,
+    );
+    if (!retryAfter) return undefined;
+    return reject(429, 'RATE_LIMITED', 'Too many cosign requests', {
+      headers: { 'Retry-After': String(retryAfter) },
+    });
+  };
+  // the minter bucket is charged once the request is known to be valid, so
+  // that requests naming someone else's address cannot drain it
+  const ipLimited = client.ip ? await rateLimited('ip', client.ip) : undefined;
+  if (ipLimited) return ipLimited;
+
+  if (collection.minterAuth) {
+    const unauthenticated = verifyMinterAuth(
+      collection.minterAuth,
+      payload,
+      timestamp,
+    );
+    if (unauthenticated) {
+      return reject(
+        unauthenticated.status,
+        unauthenticated.error,
+        unauthenticated.message,
+      );
+    }
+  }
+
+  const minterKey = `${collection.collectionContract}:${
+    collection.chainId
+  }:${payload.minter.toLowerCase()}`;
+  const cosignedQty =
+    batch?.cosignedQty.get(minterKey) ??
+    (await getCosignedQty(
+      kv,
+      payload.collectionContract,
+      collection.chainId,
+      payload.minter,
+    ));
+  const windowKey = `${minterKey}:window:${activeWindow?.id}`;
+  const windowCosignedQty = activeWindow
+    ? (batch?.cosignedQty.get(windowKey) ??
+      (await getCosignedQty(
+        kv,
+        payload.collectionContract,
+        collection.chainId,
+        payload.minter,
+        activeWindow.id,
+      )))
+    : 0;
+  const policy =
+    activeWindow?.allowWaiveMintFee !== undefined
+      ? {
+          ...collection.policy,
+          allowWaiveMintFee: activeWindow.allowWaiveMintFee,
+        }
+      : collection.policy;
+  const violation =
+    evaluatePolicy(policy, payload, cosignedQty) ??
+    (activeWindow && evaluateWindow(activeWindow, payload, windowCosignedQty));
+  if (violation) {
+    return reject(violation.status, violation.error, violation.message);
+  }
+
+  if (payload.nonce !== undefined && !isValidNonce(payload.nonce)) {
+    return reject(
+      400,
+      'INVALID_NONCE',
+      'nonce must be a non-negative safe integer',
+    );
+  }
+  const rpcUrl = rpcUrls[String(collection.chainId)];
+  let nonce = payload.nonce;
+  if (nonce === undefined) {
+    // the contract checks the signature against getCosignNonce(minter)
+    if (!rpcUrl) {
+      return reject(
+        400,
+        'NONCE_REQUIRED',
+        `nonce is required, no RPC URL is configured for chain ${collection.chainId}`,
+      );
+    }
+    try {
+      nonce = await getCosignNonce(
+        rpcUrl,
+        collection.collectionContract,
+        payload.minter,
+      );
+    } catch (e: any) {
+      return {
+        decision: 'error',
+        status: 502,
+        error: 'NONCE_READ_FAILED',
+        message: `Could not read getCosignNonce: ${e.message}`,
+      };
+    }
+  }
+  if (
+    batch?.nonces.has(`${minterKey}:${nonce}`) ||
+    (await isNonceUsed(
+      kv,
+      payload.collectionContract,
+      collection.chainId,
+      payload.minter,
+      nonce,
+      timestamp,
+    ))
+  ) {
+    return reject(
+      409,
+      'NONCE_ALREADY_USED',
+      `nonce ${nonce} has an unexpired cosign for this minter`,
+      { nonce },
+    );
+  }
+  // collections are not saved like this, unless RPC_URLS changed since
+  if (collection.eligibilityChecks && !rpcUrl) {
+    return reject(
+      422,
+      'ELIGIBILITY_CHECK_UNAVAILABLE',
+      `No RPC URL is configured for chain ${collection.chainId}`,
+    );
+  }
+  const minterLimited = await rateLimited('minter', payload.minter);
+  if (minterLimited) return minterLimited;
+
+  const cosigner = keyring.getCosigner(
+    resolveCosignerKeyId(collection, timestamp),
+  );
+  const cosignerAddress = await cosigner.getAddress();
+  if (collection.eligibilityChecks && rpcUrl) {
+    try {
+      const ineligible = await checkEligibility(rpcUrl, {
+        collectionContract: collection.collectionContract,
+        minter: payload.minter,
+        qty: payload.qty,
+        timestamp,
+        cosigner: cosignerAddress,
+      });
+      if (ineligible) {
+        return reject(ineligible.status, ineligible.error, ineligible.message, {
+          nonce,
+          cosigner: cosignerAddress,
+        });
+      }
+    } catch (e: any) {
+      return {
+        decision: 'error',
+        status: 502,
+        error: 'ELIGIBILITY_CHECK_FAILED',
+        message: `Could not read the collection contract: ${e.message}`,
+        nonce,
+        cosigner: cosignerAddress,
+      };
+    }
+  }
+
+  const signingMode = collection.signingMode ?? 'packed';
+  const sig = await signCosign(cosigner, signingMode, {
+    collectionContract: collection.collectionContract,
+    chainId: collection.chainId,
+    minter: payload.minter,
+    qty: payload.qty,
+    waiveMintFee: payload.waiveMintFee ?? false,
+    cosigner: cosignerAddress,
+    timestamp,
+    nonce,
+  });
+  await setCosignedQty(
+    kv,
+    payload.collectionContract,
+    collection.chainId,
+    payload.minter,
+    cosignedQty + payload.qty,
+  );
+  batch?.cosignedQty.set(minterKey, cosignedQty + payload.qty);
+  if (activeWindow) {
+    await setCosignedQty(
+      kv,
+      payload.collectionContract,
+      collection.chainId,
+      payload.minter,
+      windowCosignedQty + payload.qty,
+      activeWindow.id,
+    );
+    batch?.cosignedQty.set(windowKey, windowCosignedQty + payload.qty);
+  }
+  batch?.nonces.add(`${minterKey}:${nonce}`);
+  const { timestampExpirySeconds } = await resolveTimestampExpiry(
+    rpcUrl,
+    collection.collectionContract,
+  );
+  await recordNonce(kv, payload.collectionContract, payload.minter, {
+    chainId: collection.chainId,
+    nonce,
+    qty: payload.qty,
+    timestamp,
+    expiresAt: timestamp + timestampExpirySeconds,
+  });
+
+  const nextCosigner = await keyring
+    .getCosigner(collection.cosignerKeyId ?? DEFAULT_KEY_ID)
+    .getAddress();
+  return {
+    decision: 'signed',
+    response: {
+      sig,
+      timestamp,
+      cosigner: cosignerAddress,
+      nonce,
+      signingMode,
+      windowId: activeWindow?.id,
+      // set during a rotation, the address to pass to setCosigner on-chain
+      nextCosigner: nextCosigner !== cosignerAddress ? nextCosigner : undefined,
+    },
+  };
+};
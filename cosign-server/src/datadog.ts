@@ -1,32 +1,29 @@
-const ddUrl = 'https://http-intake.logs.datadoghq.com/api/v2/logs';
-
-type LogStatus = 'success' | 'error' | 'warn' | 'info';
+import { ILogSink } from './logger';
 
-export function dd(
-  event: FetchEvent,
-  data: Record<string, any>,
-  status?: LogStatus,
-) {
-  if (DATADOG_SK.length === 0) {
-    return;
-  }
+const ddUrl = 'https://http-intake.logs.datadoghq.com/api/v2/logs';
 
-  const hostname = event.request.headers.get('host') || '';
-  event.waitUntil(
-    fetch(ddUrl, {
+/**
+ * Sends entries to the Datadog log intake. Entry fields are sent as top level
+ * attributes so they can be faceted on.
+ */
+export const createDatadogSink = (
+  apiKey: string,
+  hostname: string,
+): ILogSink => ({
+  write: async (entry) => {
+    await fetch(ddUrl, {
       method: 'POST',
       body: JSON.stringify({
+        ...entry,
         ddsource: 'cloudflare',
         ddtags: 'site:' + hostname,
         hostname: hostname,
         service: 'erc721m-cosign-server',
-        message: JSON.stringify(data),
-        status: status ?? 'success',
       }),
       headers: new Headers({
         'Content-Type': 'application/json',
-        'DD-API-KEY': DATADOG_SK,
+        'DD-API-KEY': apiKey,
       }),
-    }),
-  );
-}
+    });
+  },
+});
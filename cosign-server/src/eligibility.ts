@@ -0,0 +1,231 @@
+import { Interface } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+import { AddressZero } from '@ethersproject/constants';
+import { IEligibilityViolation } from './types';
+
+const erc721mInterface = new Interface([
+  'function getMintable() view returns (bool)',
+  'function getActiveStageFromTimestamp(uint256 timestamp) view returns (uint256)',
+  'function getStageInfo(uint256 index) view returns ((uint80 price, uint32 walletLimit, bytes32 merkleRoot, uint24 maxStageSupply, uint256 startTimeUnixSeconds, uint256 endTimeUnixSeconds), uint32, uint256)',
+  'function getGlobalWalletLimit() view returns (uint256)',
+  'function totalMintedByAddress(address a) view returns (uint256)',
+  'function getMaxMintableSupply() view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+  'function getCosigner() view returns (address)',
+  'function getTimestampExpirySeconds() view returns (uint256)',
+  'function getCosignNonce(address minter) view returns (uint256)',
+]);
+
+// matches DEFAULT_TIMESTAMP_EXPIRY in the CLI that deploys collections
+export const DEFAULT_TIMESTAMP_EXPIRY_SECONDS = 300;
+
+interface IEligibilityRequest {
+  collectionContract: string;
+  minter: string;
+  qty: number;
+  timestamp: number;
+  cosigner: string;
+}
+
+class RpcCallError extends Error {
+  constructor(
+    message: string,
+    public readonly reverted: boolean,
+  ) {
+    super(message);
+  }
+}
+
+const ethCall = async (
+  rpcUrl: string,
+  to: string,
+  from: string,
+  method: string,
+  args: unknown[] = [],
+) => {
+  const res = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'eth_call',
+      params: [
+        { to, from, data: erc721mInterface.encodeFunctionData(method, args) },
+        'latest',
+      ],
+    }),
+  });
+  if (!res.ok) {
+    throw new RpcCallError(`RPC responded ${res.status} to ${method}`, false);
+  }
+  const body = (await res.json()) as {
+    result?: string;
+    error?: { message: string; data?: unknown };
+  };
+  if (body.error || !body.result) {
+    // nodes report reverts as an error carrying the revert data
+    throw new RpcCallError(
+      `${method} failed: ${body.error?.message ?? 'empty result'}`,
+      body.error?.data !== undefined ||
+        /revert/i.test(body.error?.message ?? ''),
+    );
+  }
+  return erc721mInterface.decodeFunctionResult(method, body.result);
+};
+
+const violation = (
+  error: IEligibilityViolation['error'],
+  message: string,
+): IEligibilityViolation => ({ status: 422, error, message });
+
+/**
+ * Reads the collection contract and returns a violation when minting `qty`
+ * for `minter` with a signature from `cosigner` at `timestamp` would revert.
+ * Mirrors the checks in ERC721M `_mintInternal`, except for the merkle proof
+ * and payment which the server cannot see.
+ */
+export const checkEligibility = async (
+  rpcUrl: string,
+  request: IEligibilityRequest,
+): Promise<IEligibilityViolation | undefined> => {
+  const { collectionContract: to, minter, qty } = request;
+  const call = (method: string, args?: unknown[]) =>
+    ethCall(rpcUrl, to, minter, method, args);
+
+  const [[mintable], [onchainCosigner]] = await Promise.all([
+    call('getMintable'),
+    call('getCosigner'),
+  ]);
+  if (!mintable) {
+    return violation('NOT_MINTABLE', 'Collection is not mintable');
+  }
+  if (
+    String(onchainCosigner).toLowerCase() !== request.cosigner.toLowerCase()
+  ) {
+    return violation(
+      'COSIGNER_MISMATCH',
+      `On-chain cosigner ${onchainCosigner} does not match ${request.cosigner}`,
+    );
+  }
+
+  let activeStage: BigNumber;
+  try {
+    [activeStage] = await call('getActiveStageFromTimestamp', [
+      request.timestamp,
+    ]);
+  } catch (e) {
+    if (e instanceof RpcCallError && e.reverted) {
+      return violation('NO_ACTIVE_STAGE', 'No stage is active');
+    }
+    throw e;
+  }
+
+  const [
+    [stage, walletMinted, stageMinted],
+    [globalWalletLimit],
+    [totalMintedByMinter],
+    [maxMintableSupply],
+    [totalSupply],
+  ] = await Promise.all([
+    call('getStageInfo', [activeStage]),
+    call('getGlobalWalletLimit'),
+    call('totalMintedByAddress', [minter]),
+    call('getMaxMintableSupply'),
+    call('totalSupply'),
+  ]);
+
+  if (BigNumber.from(totalSupply).add(qty).gt(maxMintableSupply)) {
+    return violation('NO_SUPPLY_LEFT', 'Not enough supply left');
+  }
+  if (
+    stage.maxStageSupply > 0 &&
+    BigNumber.from(stageMinted).add(qty).gt(stage.maxStageSupply)
+  ) {
+    return violation(
+      'STAGE_SUPPLY_EXCEEDED',
+      `Not enough supply left in stage ${activeStage}`,
+    );
+  }
+  if (
+    BigNumber.from(globalWalletLimit).gt(0) &&
+    BigNumber.from(totalMintedByMinter).add(qty).gt(globalWalletLimit)
+  ) {
+    return violation(
+      'WALLET_GLOBAL_LIMIT_EXCEEDED',
+      `Minter would exceed the global wallet limit of ${globalWalletLimit}`,
+    );
+  }
+  if (stage.walletLimit > 0 && walletMinted + qty > stage.walletLimit) {
+    return violation(
+      'WALLET_STAGE_LIMIT_EXCEEDED',
+      `Minter would exceed the stage wallet limit of ${stage.walletLimit}`,
+    );
+  }
+  return undefined;
+};
+
+/**
+ * Reads how long a cosign timestamp stays valid on the collection contract.
+ */
+export const getTimestampExpirySeconds = async (
+  rpcUrl: string,
+  collectionContract: string,
+): Promise<number> => {
+  const [expiry] = await ethCall(
+    rpcUrl,
+    collectionContract,
+    AddressZero,
+    'getTimestampExpirySeconds',
+  );
+  return BigNumber.from(expiry).toNumber();
+};
+
+/**
+ * Reads the timestamp expiry when an RPC URL is configured for the chain, and
+ * falls back to the default expiry when there is none or the read fails.
+ */
+export const resolveTimestampExpiry = async (
+  rpcUrl: string | undefined,
+  collectionContract: string,
+): Promise<{
+  timestampExpirySeconds: number;
+  expirySource: 'onchain' | 'default';
+}> => {
+  if (rpcUrl) {
+    try {
+      return {
+        timestampExpirySeconds: await getTimestampExpirySeconds(
+          rpcUrl,
+          collectionContract,
+        ),
+        expirySource: 'onchain',
+      };
+    } catch {
+      // fall back to the default expiry when the contract cannot be read
+    }
+  }
+  return {
+    timestampExpirySeconds: DEFAULT_TIMESTAMP_EXPIRY_SECONDS,
+    expirySource: 'default',
+  };
+};
+
+/**
+ * Reads the nonce the contract expects in the next cosign of `minter`, the
+ * number of tokens it minted so far on ERC721M.
+ */
+export const getCosignNonce = async (
+  rpcUrl: string,
+  collectionContract: string,
+  minter: string,
+): Promise<number> => {
+  const [nonce] = await ethCall(
+    rpcUrl,
+    collectionContract,
+    AddressZero,
+    'getCosignNonce',
+    [minter],
+  );
+  return BigNumber.from(nonce).toNumber();
+};
@@ -0,0 +1,67 @@
+import { IKeyring } from './keyring';
+import { IKeyValueStore } from './types';
+
+export interface IHealthCheck {
+  ok: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface IHealthReport {
+  status: 'ok' | 'degraded';
+  checks: {
+    kv: IHealthCheck;
+    signers: IHealthCheck & { keys: number };
+  };
+}
+
+const HEALTH_KEY = 'health:v1';
+
+const checkKV = async (kv: IKeyValueStore): Promise<IHealthCheck> => {
+  const startedAt = Date.now();
+  try {
+    // a read of a missing key is enough to prove the namespace responds
+    await kv.get(HEALTH_KEY);
+    return { ok: true, latencyMs: Date.now() - startedAt };
+  } catch (e: any) {
+    return { ok: false, latencyMs: Date.now() - startedAt, error: e.message };
+  }
+};
+
+const checkSigners = async (keyring: IKeyring) => {
+  const keyIds = keyring.getKeyIds();
+  if (keyIds.length === 0) {
+    return { ok: false, keys: 0, error: 'No cosigner key is configured' };
+  }
+  for (const keyId of keyIds) {
+    try {
+      await keyring.getCosigner(keyId).getAddress();
+    } catch {
+      // signer errors can echo key material or backend credentials, keep them
+      // out of the report
+      return {
+        ok: false,
+        keys: keyIds.length,
+        error: 'A cosigner key failed to load',
+      };
+    }
+  }
+  return { ok: true, keys: keyIds.length };
+};
+
+/**
+ * Checks that KV responds and that every configured cosigner resolves its address.
+ */
+export const checkHealth = async (
+  kv: IKeyValueStore,
+  keyring: IKeyring,
+): Promise<IHealthReport> => {
+  const checks = {
+    kv: await checkKV(kv),
+    signers: await checkSigners(keyring),
+  };
+  return {
+    status: checks.kv.ok && checks.signers.ok ? 'ok' : 'degraded',
+    checks,
+  };
+};
@@ -0,0 +1,81 @@
+import { createAwsKmsClient, createKmsSigner } from './kmsSigner';
+import { createLocalSigner } from './localSigner';
+import { createRemoteSigner } from './remoteSigner';
+import { ICollection, ISigner, SignerConfig } from './types';
+
+/**
+ * Key ID of the legacy `COSIGN_PRIVATE_KEY` secret.
+ */
+export const DEFAULT_KEY_ID = 'default';
+
+export interface IKeyring {
+  getKeyIds(): string[];
+  getCosigner(keyId?: string): ISigner;
+}
+
+/**
+ * Builds the signer backend described by `config`. `fetchFn` carries the
+ * requests of the KMS and remote backends.
+ */
+export const createSigner = (
+  config: SignerConfig,
+  fetchFn: typeof fetch = fetch,
+): ISigner => {
+  switch (config.type) {
+    case 'local':
+      return createLocalSigner(config.privateKey);
+    case 'kms':
+      return createKmsSigner(createAwsKmsClient(config, fetchFn));
+    case 'remote':
+      return createRemoteSigner(config, fetchFn);
+    default:
+      throw new Error(
+        `Unknown signer type ${(config as { type: unknown }).type}`,
+      );
+  }
+};
+
+/**
+ * Builds a keyring from a map of key ID to signer config. Signers are created
+ * on first use and cached.
+ */
+export const createKeyring = (
+  signers: Record<string, SignerConfig>,
+  fetchFn?: typeof fetch,
+): IKeyring => {
+  const cosigners = new Map<string, ISigner>();
+  return {
+    getKeyIds: () => Object.keys(signers),
+    getCosigner: (keyId = DEFAULT_KEY_ID) => {
+      const cached = cosigners.get(keyId);
+      if (cached) return cached;
+
+      const config = signers[keyId];
+      if (!config) {
+        throw new Error(`Cosigner key ${keyId} is not configured`);
+      }
+      const cosigner = createSigner(config, fetchFn);
+      cosigners.set(keyId, cosigner);
+      return cosigner;
+    },
+  };
+};
+
+/**
+ * Returns the key ID that signs for the collection at `now`. During a
+ * rotation the previous key keeps signing until `cosignerActivatesAt`, which
+ * leaves time to call `setCosigner` on-chain with the new address.
+ */
+export const resolveCosignerKeyId = (
+  collection: ICollection,
+  now: number,
+): string => {
+  if (
+    collection.previousCosignerKeyId &&
+    collection.cosignerActivatesAt &&
+    now < collection.cosignerActivatesAt
+  ) {
+    return collection.previousCosignerKeyId;
+  }
+  return collection.cosignerKeyId ?? DEFAULT_KEY_ID;
+};
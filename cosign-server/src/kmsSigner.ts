@@ -0,0 +1,181 @@
+import { decode, encode } from '@ethersproject/base64';
+import { BigNumber } from '@ethersproject/bignumber';
+import {
+  arrayify,
+  hexlify,
+  hexZeroPad,
+  joinSignature,
+} from '@ethersproject/bytes';
+import { computeAddress, recoverAddress } from '@ethersproject/transactions';
+import { IKmsSignerConfig, ISigner } from './types';
+
+/**
+ * The two KMS operations a cosigner needs. Keys are secp256k1, public keys
+ * come DER encoded as SubjectPublicKeyInfo and signatures as DER ECDSA.
+ */
+export interface IKmsClient {
+  getPublicKey(): Promise<Uint8Array>;
+  sign(digest: Uint8Array): Promise<Uint8Array>;
+}
+
+const SECP256K1_N = BigNumber.from(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+);
+
+const toHex = (buffer: ArrayBuffer) => hexlify(new Uint8Array(buffer)).slice(2);
+
+const sha256Hex = async (data: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data)));
+
+const hmac = async (key: Uint8Array, data: string) => {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return new Uint8Array(
+    await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data)),
+  );
+};
+
+/**
+ * Calls the AWS KMS JSON API with a SigV4 signed request, without pulling the
+ * AWS SDK into the Worker bundle.
+ */
+export const createAwsKmsClient = (
+  config: IKmsSignerConfig,
+  fetchFn: typeof fetch = fetch,
+): IKmsClient => {
+  const endpoint =
+    config.endpoint ?? `https://kms.${config.region}.amazonaws.com`;
+
+  const call = async <T>(action: string, payload: object): Promise<T> => {
+    const body = JSON.stringify(payload);
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${config.region}/kms/aws4_request`;
+    const headers: Record<string, string> = {
+      'content-type': 'application/x-amz-json-1.1',
+      host: new URL(endpoint).host,
+      'x-amz-date': amzDate,
+      'x-amz-target': `TrentService.${action}`,
+    };
+    if (config.sessionToken) {
+      headers['x-amz-security-token'] = config.sessionToken;
+    }
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+      'POST',
+      '/',
+      '',
+      ...names.map((name) => `${name}:${headers[name]}`),
+      '',
+      signedHeaders,
+      await sha256Hex(body),
+    ].join('\n');
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      await sha256Hex(canonicalRequest),
+    ].join('\n');
+
+    let key = new TextEncoder().encode(`AWS4${config.secretAccessKey}`);
+    for (const part of [dateStamp, config.region, 'kms', 'aws4_request']) {
+      key = await hmac(key, part);
+    }
+    const signature = toHex(await hmac(key, stringToSign));
+
+    // fetch derives the host header from the URL and refuses an explicit one
+    const { host: _host, ...sentHeaders } = headers;
+    const res = await fetchFn(endpoint, {
+      method: 'POST',
+      headers: {
+        ...sentHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+    if (!res.ok) {
+      throw new Error(
+        `KMS ${action} failed with ${res.status}: ${await res.text()}`,
+      );
+    }
+    return (await res.json()) as T;
+  };
+
+  return {
+    getPublicKey: async () => {
+      const { PublicKey } = await call<{ PublicKey: string }>('GetPublicKey', {
+        KeyId: config.keyId,
+      });
+      return decode(PublicKey);
+    },
+    sign: async (digest) => {
+      const { Signature } = await call<{ Signature: string }>('Sign', {
+        KeyId: config.keyId,
+        Message: encode(digest),
+        MessageType: 'DIGEST',
+        SigningAlgorithm: 'ECDSA_SHA_256',
+      });
+      return decode(Signature);
+    },
+  };
+};
+
+/**
+ * Reads the r and s integers of a DER encoded ECDSA signature.
+ */
+const parseDerSignature = (der: Uint8Array) => {
+  const readInteger = (offset: number) => {
+    if (der[offset] !== 0x02) throw new Error('Malformed DER signature');
+    const length = der[offset + 1];
+    const value = BigNumber.from(der.slice(offset + 2, offset + 2 + length));
+    return { value, next: offset + 2 + length };
+  };
+  if (der[0] !== 0x30) throw new Error('Malformed DER signature');
+  const r = readInteger(2);
+  const s = readInteger(r.next);
+  return { r: r.value, s: s.value };
+};
+
+/**
+ * Signs with a secp256k1 key that never leaves KMS. KMS returns neither a
+ * low-s signature nor a recovery ID, so both are derived here.
+ */
+export const createKmsSigner = (client: IKmsClient): ISigner => {
+  let address: Promise<string> | undefined;
+  const getAddress = () => {
+    // the uncompressed point is the last 65 bytes of SubjectPublicKeyInfo
+    if (!address) {
+      address = client
+        .getPublicKey()
+        .then((spki) => computeAddress(spki.slice(spki.length - 65)));
+      // retry on the next call instead of caching a failure
+      address.catch(() => (address = undefined));
+    }
+    return address;
+  };
+
+  return {
+    getAddress,
+    signDigest: async (digest) => {
+      const expected = await getAddress();
+      const { r, s } = parseDerSignature(await client.sign(arrayify(digest)));
+      const lowS = s.gt(SECP256K1_N.div(2)) ? SECP256K1_N.sub(s) : s;
+      for (const v of [27, 28]) {
+        const signature = joinSignature({
+          r: hexZeroPad(r.toHexString(), 32),
+          s: hexZeroPad(lowS.toHexString(), 32),
+          v,
+        });
+        if (recoverAddress(digest, signature) === expected) return signature;
+      }
+      throw new Error('KMS signature does not recover to the KMS key');
+    },
+  };
+};
@@ -0,0 +1,17 @@
+import { joinSignature } from '@ethersproject/bytes';
+import { SigningKey } from '@ethersproject/signing-key';
+import { computeAddress } from '@ethersproject/transactions';
+import { ISigner } from './types';
+
+/**
+ * Signs with a private key held in memory. Fine for development and
+ * testnets, mainnet drops should use a KMS or remote signer.
+ */
+export const createLocalSigner = (privateKey: string): ISigner => {
+  const signingKey = new SigningKey(privateKey);
+  const address = computeAddress(signingKey.publicKey);
+  return {
+    getAddress: async () => address,
+    signDigest: async (digest) => joinSignature(signingKey.signDigest(digest)),
+  };
+};
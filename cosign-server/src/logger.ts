@@ -0,0 +1,56 @@
+export type LogStatus = 'success' | 'error' | 'warn' | 'info';
+
+export interface ILogEntry {
+  message: string;
+  status: LogStatus;
+  timestamp: number; // unix timestamp in milliseconds
+  [field: string]: unknown;
+}
+
+export interface ILogSink {
+  write(entry: ILogEntry): Promise<void> | void;
+}
+
+export interface ILogger {
+  log(
+    message: string,
+    fields?: Record<string, unknown>,
+    status?: LogStatus,
+  ): void;
+}
+
+export const consoleSink: ILogSink = {
+  write: (entry) => {
+    const line = JSON.stringify(entry);
+    if (entry.status === 'error') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  },
+};
+
+/**
+ * Fans every entry out to the sinks. Writes are handed to `waitUntil` so they
+ * never delay the response, and a failing sink does not affect the others.
+ */
+export const createLogger = (
+  sinks: ILogSink[],
+  waitUntil: (promise: Promise<unknown>) => void,
+): ILogger => ({
+  log: (message, fields = {}, status = 'info') => {
+    const entry: ILogEntry = {
+      ...fields,
+      message,
+      status,
+      timestamp: Date.now(),
+    };
+    for (const sink of sinks) {
+      waitUntil(
+        Promise.resolve()
+          .then(() => sink.write(entry))
+          .catch((e) => console.error(`Log sink failed: ${e.message}`)),
+      );
+    }
+  },
+});
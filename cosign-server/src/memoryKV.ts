@@ -0,0 +1,75 @@
+import { IKeyValueStore } from './types';
+
+interface IMemoryEntry {
+  value: string;
+  metadata?: unknown;
+  expiresAt?: number; // unix timestamp in milliseconds
+}
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+/**
+ * In-memory IKeyValueStore for tests and single-process deployments. Keys are
+ * listed in ascending order like KV, with the cursor being the last key
+ * returned. Nothing is persisted across restarts.
+ */
+export const createMemoryKV = (): IKeyValueStore => {
+  const entries = new Map<string, IMemoryEntry>();
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  async function get(key: string): Promise<string | null>;
+  async function get<T>(key: string, type: 'json'): Promise<T | null>;
+  async function get(key: string, type?: 'json') {
+    const entry = read(key);
+    if (!entry) return null;
+    return type === 'json' ? JSON.parse(entry.value) : entry.value;
+  }
+
+  return {
+    get,
+    put: async (key, value, options = {}) => {
+      entries.set(key, {
+        value,
+        metadata: options.metadata,
+        expiresAt:
+          options.expirationTtl !== undefined
+            ? Date.now() + options.expirationTtl * 1000
+            : undefined,
+      });
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    list: async <Metadata>(
+      options: { prefix?: string; cursor?: string; limit?: number } = {},
+    ) => {
+      const { prefix = '', cursor, limit = DEFAULT_LIST_LIMIT } = options;
+      const names = [...entries.keys()]
+        .filter(
+          (name) =>
+            name.startsWith(prefix) &&
+            (cursor === undefined || name > cursor) &&
+            read(name) !== undefined,
+        )
+        .sort();
+      const page = names.slice(0, limit);
+      const listComplete = page.length === names.length;
+      return {
+        keys: page.map((name) => ({
+          name,
+          metadata: entries.get(name)?.metadata as Metadata | undefined,
+        })),
+        list_complete: listComplete,
+        cursor: listComplete ? undefined : page[page.length - 1],
+      };
+    },
+  };
+};
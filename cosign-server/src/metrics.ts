@@ -0,0 +1,50 @@
+import { AUDIT_MESSAGE } from './audit';
+import { ILogSink } from './logger';
+import { ICollectionMetrics, ICosignAuditEntry, IKeyValueStore } from './types';
+
+const METRICS_PREFIX = 'metrics:v1:';
+
+const metricsKey = (collection: string, chainId: number) =>
+  `${METRICS_PREFIX}${collection.toLowerCase()}:${chainId}`;
+
+/**
+ * Counts cosign decisions per collection and chain. KV has no atomic
+ * increment, so concurrent requests can lose a count: treat the counters as
+ * approximate. KV also takes about one write per second per key, so counts
+ * are dropped on busy drops. Only enabled when LOG_SINKS names it.
+ */
+export const createMetricsSink = (kv: IKeyValueStore): ILogSink => ({
+  write: async ({ message, ...fields }) => {
+    if (message !== AUDIT_MESSAGE) return;
+    const entry = fields as unknown as ICosignAuditEntry;
+    if (!entry.collection || typeof entry.chainId !== 'number') return;
+
+    const key = metricsKey(entry.collection, entry.chainId);
+    const metrics = (await kv.get<ICollectionMetrics>(key, 'json')) ?? {
+      collection: entry.collection.toLowerCase(),
+      chainId: entry.chainId,
+      signed: 0,
+      rejected: 0,
+      error: 0,
+    };
+    metrics[entry.decision] += 1;
+    metrics.updatedAt = Math.floor(entry.timestamp / 1000);
+    await kv.put(key, JSON.stringify(metrics), { metadata: metrics });
+  },
+});
+
+export const listMetrics = async (
+  kv: IKeyValueStore,
+  options: { collection?: string; cursor?: string },
+): Promise<{ collections: ICollectionMetrics[]; cursor?: string }> => {
+  const res = await kv.list<ICollectionMetrics>({
+    prefix: options.collection
+      ? `${METRICS_PREFIX}${options.collection.toLowerCase()}:`
+      : METRICS_PREFIX,
+    cursor: options.cursor,
+  });
+  const collections = res.keys
+    .map((key) => key.metadata)
+    .filter((metrics): metrics is ICollectionMetrics => !!metrics);
+  return { collections, cursor: res.list_complete ? undefined : res.cursor };
+};
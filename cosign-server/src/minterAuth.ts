@@ -0,0 +1,206 @@
+import { getAddress } from '@ethersproject/address';
+import { verifyMessage } from '@ethersproject/wallet';
+import {
+  ICosignRequest,
+  IMinterAuthConfig,
+  IMinterAuthViolation,
+  MinterAuthType,
+  MinterAuthViolationCode,
+} from './types';
+
+export const MINTER_AUTH_TYPES: MinterAuthType[] = ['siwe', 'personal'];
+
+const DEFAULT_MAX_AGE_SECONDS = 300;
+
+// tolerated drift between the wallet clock and the server clock
+const CLOCK_SKEW_SECONDS = 60;
+
+const SIWE_HEADER = / wants you to sign in with your Ethereum account:$/;
+
+interface IPersonalAuthParams {
+  domain: string;
+  collectionContract: string;
+  chainId: number;
+  minter: string;
+  issuedAt: string; // ISO 8601
+}
+
+/**
+ * Message a minter signs with `personal_sign` for collections using the
+ * 'personal' auth type. Addresses are checksummed.
+ */
+export const getPersonalAuthMessage = (params: IPersonalAuthParams) =>
+  [
+    `${params.domain} requests a cosign for ${params.minter}`,
+    `Collection: ${params.collectionContract}`,
+    `Chain ID: ${params.chainId}`,
+    `Issued At: ${params.issuedAt}`,
+  ].join('\n');
+
+/**
+ * Validates the minter auth config of a collection. Throws with a 400 status
+ * when a field is malformed.
+ */
+export const normalizeMinterAuth = (
+  minterAuth: IMinterAuthConfig,
+): IMinterAuthConfig => {
+  const invalid = (message: string) =>
+    Object.assign(new Error(`Invalid minterAuth: ${message}`), {
+      status: 400,
+    });
+
+  if (!MINTER_AUTH_TYPES.includes(minterAuth.type)) {
+    throw invalid(`type must be one of ${MINTER_AUTH_TYPES.join(', ')}`);
+  }
+  if (typeof minterAuth.domain !== 'string' || !minterAuth.domain) {
+    throw invalid('domain is required');
+  }
+  if (
+    minterAuth.maxAgeSeconds !== undefined &&
+    (!Number.isInteger(minterAuth.maxAgeSeconds) ||
+      minterAuth.maxAgeSeconds <= 0)
+  ) {
+    throw invalid('maxAgeSeconds must be a positive integer');
+  }
+  return minterAuth;
+};
+
+/**
+ * Reads the `Key: value` lines of a message. The first occurrence of a key
+ * wins.
+ */
+const parseFields = (lines: string[]) => {
+  const fields: Record<string, string> = {};
+  for (const line of lines) {
+    const match = /^([A-Za-z ]+): (.*)$/.exec(line);
+    if (match && fields[match[1]] === undefined) fields[match[1]] = match[2];
+  }
+  return fields;
+};
+
+const toUnixSeconds = (value: string | undefined) => {
+  const ms = value === undefined ? NaN : Date.parse(value);
+  return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+};
+
+const sameAddress = (a: string, b: string) => {
+  try {
+    return getAddress(a) === getAddress(b);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks that the request carries a message signed by `minter` that is bound
+ * to the collection domain and chain, and recent enough. Returns the first
+ * violation found, or undefined when the minter is authenticated. Only EOA
+ * signatures are recovered, smart contract wallets cannot authenticate.
+ */
+export const verifyMinterAuth = (
+  config: IMinterAuthConfig,
+  payload: ICosignRequest,
+  now: number,
+): IMinterAuthViolation | undefined => {
+  const violation = (
+    error: MinterAuthViolationCode,
+    message: string,
+  ): IMinterAuthViolation => ({ status: 401, error, message });
+
+  const { auth } = payload;
+  if (
+    typeof auth?.message !== 'string' ||
+    typeof auth?.signature !== 'string'
+  ) {
+    return violation(
+      'MINTER_AUTH_REQUIRED',
+      `auth must carry a ${config.type} message signed by the minter`,
+    );
+  }
+
+  const lines = auth.message.split('\n');
+  const fields = parseFields(lines);
+  const issuedAt = toUnixSeconds(fields['Issued At']);
+  if (issuedAt === undefined) {
+    return violation('INVALID_MINTER_AUTH', 'Issued At is missing');
+  }
+
+  if (config.type === 'siwe') {
+    if (!SIWE_HEADER.test(lines[0])) {
+      return violation('INVALID_MINTER_AUTH', 'Not an EIP-4361 message');
+    }
+    if (lines[0].replace(SIWE_HEADER, '') !== config.domain) {
+      return violation(
+        'INVALID_MINTER_AUTH',
+        `Message is not bound to ${config.domain}`,
+      );
+    }
+    if (!sameAddress(lines[1] ?? '', payload.minter)) {
+      return violation(
+        'INVALID_MINTER_AUTH',
+        'Message address does not match minter',
+      );
+    }
+    if (fields['Version'] !== '1' || !fields['Nonce'] || !fields['URI']) {
+      return violation(
+        'INVALID_MINTER_AUTH',
+        'URI, Version 1 and Nonce are required',
+      );
+    }
+    if (Number(fields['Chain ID']) !== payload.chainId) {
+      return violation(
+        'INVALID_MINTER_AUTH',
+        `Message is not bound to chain ${payload.chainId}`,
+      );
+    }
+    if (fields['Expiration Time'] !== undefined) {
+      const expiresAt = toUnixSeconds(fields['Expiration Time']);
+      if (expiresAt === undefined || expiresAt <= now) {
+        return violation('MINTER_AUTH_EXPIRED', 'Message has expired');
+      }
+    }
+    if (fields['Not Before'] !== undefined) {
+      const notBefore = toUnixSeconds(fields['Not Before']);
+      if (notBefore === undefined || notBefore > now) {
+        return violation('INVALID_MINTER_AUTH', 'Message is not valid yet');
+      }
+    }
+  } else {
+    let expected: string;
+    try {
+      expected = getPersonalAuthMessage({
+        domain: config.domain,
+        collectionContract: getAddress(payload.collectionContract),
+        chainId: payload.chainId,
+        minter: getAddress(payload.minter),
+        issuedAt: fields['Issued At'],
+      });
+    } catch {
+      return violation('INVALID_MINTER_AUTH', 'Invalid minter address');
+    }
+    if (auth.message !== expected) {
+      return violation(
+        'INVALID_MINTER_AUTH',
+        'Message does not match the expected cosign auth message',
+      );
+    }
+  }
+
+  if (
+    issuedAt > now + CLOCK_SKEW_SECONDS ||
+    now - issuedAt > (config.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS)
+  ) {
+    return violation('MINTER_AUTH_EXPIRED', 'Message is too old');
+  }
+
+  let signer: string;
+  try {
+    signer = verifyMessage(auth.message, auth.signature);
+  } catch {
+    return violation('INVALID_MINTER_AUTH', 'Malformed signature');
+  }
+  if (!sameAddress(signer, payload.minter)) {
+    return violation('INVALID_MINTER_AUTH', 'Message was not signed by minter');
+  }
+  return undefined;
+};
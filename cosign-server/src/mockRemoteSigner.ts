@@ -0,0 +1,36 @@
+import { createLocalSigner } from './localSigner';
+
+/**
+ * Implements the remote signer protocol over a local key, as a `fetch`
+ * function to hand to `createRemoteSigner` in tests.
+ */
+export const createMockRemoteSigner = (
+  privateKey: string,
+  authToken?: string,
+): typeof fetch => {
+  const signer = createLocalSigner(privateKey);
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    if (
+      authToken &&
+      request.headers.get('authorization') !== `Bearer ${authToken}`
+    ) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+    const { pathname } = new URL(request.url);
+    if (request.method === 'GET' && pathname.endsWith('/address')) {
+      return json({ address: await signer.getAddress() });
+    }
+    if (request.method === 'POST' && pathname.endsWith('/sign')) {
+      const { digest } = await request.json<{ digest: string }>();
+      return json({ signature: await signer.signDigest(digest) });
+    }
+    return json({ error: 'Not Found' }, 404);
+  };
+};
@@ -0,0 +1,72 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { webcrypto } from 'crypto';
+import { loadConfig } from './config';
+import { createMemoryKV } from './memoryKV';
+import { createHandler } from './router';
+import { ICosignServerConfig, IKeyValueStore } from './types';
+
+// Node 18 does not expose Web Crypto as a global
+if (typeof crypto === 'undefined') {
+  Object.assign(globalThis, { crypto: webcrypto });
+}
+
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+const toRequest = async (req: IncomingMessage): Promise<Request> => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+  const method = req.method ?? 'GET';
+  const body =
+    method === 'GET' || method === 'HEAD' ? undefined : await readBody(req);
+  return new Request(`http://${req.headers.host ?? 'localhost'}${req.url}`, {
+    method,
+    headers,
+    body,
+  });
+};
+
+const sendResponse = async (response: Response, res: ServerResponse) => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+/**
+ * Serves the cosign routes over a Node http server, for local development
+ * and integration tests. Background work passed to `waitUntil` is awaited
+ * before the response is sent so that audit entries are readable right away.
+ */
+export const createNodeServer = (
+  config: ICosignServerConfig,
+  kv: IKeyValueStore = createMemoryKV(),
+): Server => {
+  const handle = createHandler(config, kv);
+  return createServer(async (req, res) => {
+    try {
+      const pending: Promise<unknown>[] = [];
+      const response = await handle(await toRequest(req), {
+        waitUntil: (promise) => pending.push(promise),
+        clientIp: req.socket.remoteAddress ?? null,
+      });
+      await Promise.allSettled(pending);
+      await sendResponse(response, res);
+    } catch (e: any) {
+      res.statusCode = 500;
+      res.end(e.message);
+    }
+  });
+};
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || 8787;
+  createNodeServer(loadConfig(process.env)).listen(port, () => {
+    console.log(`Cosign server listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,95 @@
+import { IKeyValueStore, INonceRecord } from './types';
+
+const MAX_NONCE = Number.MAX_SAFE_INTEGER;
+
+// KV rejects expirationTtl values below 60 seconds
+const MIN_NONCE_TTL_SECONDS = 60;
+
+const noncePrefix = (
+  collectionContract: string,
+  minter: string,
+  chainId?: number,
+) =>
+  `nonce:v1:${collectionContract.toLowerCase()}:${minter.toLowerCase()}:` +
+  (chainId === undefined ? '' : `${chainId}:`);
+
+export const isValidNonce = (nonce: unknown): nonce is number =>
+  typeof nonce === 'number' &&
+  Number.isInteger(nonce) &&
+  nonce >= 0 &&
+  nonce <= MAX_NONCE;
+
+export const getNonceRecord = async (
+  kv: IKeyValueStore,
+  collectionContract: string,
+  chainId: number,
+  minter: string,
+  nonce: number,
+): Promise<INonceRecord | null> =>
+  kv.get<INonceRecord>(
+    noncePrefix(collectionContract, minter, chainId) + nonce,
+    'json',
+  );
+
+/**
+ * Whether a signature for `nonce` that has not expired yet at `now` was
+ * already issued. Once it expires the contract rejects it anyway, so the
+ * nonce may be cosigned again.
+ */
+export const isNonceUsed = async (
+  kv: IKeyValueStore,
+  collectionContract: string,
+  chainId: number,
+  minter: string,
+  nonce: number,
+  now: number,
+): Promise<boolean> => {
+  const record = await getNonceRecord(
+    kv,
+    collectionContract,
+    chainId,
+    minter,
+    nonce,
+  );
+  return record !== null && record.expiresAt >= now;
+};
+
+/**
+ * Records a signed nonce until its signature expires. The record is kept in
+ * the key metadata so that listing nonces does not need one read per key.
+ */
+export const recordNonce = async (
+  kv: IKeyValueStore,
+  collectionContract: string,
+  minter: string,
+  record: INonceRecord,
+) => {
+  await kv.put(
+    noncePrefix(collectionContract, minter, record.chainId) + record.nonce,
+    JSON.stringify(record),
+    {
+      expirationTtl: Math.max(
+        MIN_NONCE_TTL_SECONDS,
+        record.expiresAt - record.timestamp,
+      ),
+      metadata: record,
+    },
+  );
+};
+
+export const listNonces = async (
+  kv: IKeyValueStore,
+  collectionContract: string,
+  minter: string,
+  chainId: number | undefined,
+  cursor?: string,
+): Promise<{ nonces: INonceRecord[]; cursor?: string }> => {
+  const res = await kv.list<INonceRecord>({
+    prefix: noncePrefix(collectionContract, minter, chainId),
+    cursor,
+  });
+  const nonces = res.keys
+    .map((key) => key.metadata)
+    .filter((record): record is INonceRecord => !!record);
+  return { nonces, cursor: res.list_complete ? undefined : res.cursor };
+};
@@ -0,0 +1,149 @@
+import {
+  ICosignPolicy,
+  ICosignRequest,
+  IKeyValueStore,
+  IPolicyViolation,
+} from './types';
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const cosignedQtyKey = (
+  collectionContract: string,
+  chainId: number,
+  minter: string,
+  windowId?: string,
+) =>
+  `cosigned:v1:${collectionContract.toLowerCase()}:${chainId}:${minter.toLowerCase()}` +
+  (windowId === undefined ? '' : `:window:${windowId}`);
+
+/**
+ * Validates a policy submitted by an admin and returns it with every address
+ * lowercased. Throws with a 400 status when a field is malformed.
+ */
+export const normalizePolicy = (policy: ICosignPolicy): ICosignPolicy => {
+  const invalid = (message: string) =>
+    Object.assign(new Error(`Invalid policy: ${message}`), { status: 400 });
+
+  for (const field of ['maxQtyPerRequest', 'maxQtyPerMinter'] as const) {
+    if (policy[field] !== undefined && !isPositiveInteger(policy[field])) {
+      throw invalid(`${field} must be a positive integer`);
+    }
+  }
+  for (const field of ['allowlist', 'denylist'] as const) {
+    const list = policy[field];
+    if (
+      list !== undefined &&
+      (!Array.isArray(list) || list.some((a) => typeof a !== 'string'))
+    ) {
+      throw invalid(`${field} must be an array of addresses`);
+    }
+  }
+  if (
+    policy.allowWaiveMintFee !== undefined &&
+    typeof policy.allowWaiveMintFee !== 'boolean'
+  ) {
+    throw invalid('allowWaiveMintFee must be a boolean');
+  }
+
+  return {
+    ...policy,
+    allowlist: policy.allowlist?.map((a) => a.toLowerCase()),
+    denylist: policy.denylist?.map((a) => a.toLowerCase()),
+  };
+};
+
+/**
+ * Checks a cosign request against the collection policy. `cosignedQty` is the
+ * quantity already cosigned for the minter. Returns the first violation found,
+ * or undefined when the request may be signed.
+ */
+export const evaluatePolicy = (
+  policy: ICosignPolicy | undefined,
+  payload: ICosignRequest,
+  cosignedQty: number,
+): IPolicyViolation | undefined => {
+  if (!isPositiveInteger(payload.qty)) {
+    return {
+      status: 400,
+      error: 'INVALID_QTY',
+      message: 'qty must be a positive integer',
+    };
+  }
+
+  const minter = payload.minter.toLowerCase();
+  if (policy?.denylist?.includes(minter)) {
+    return {
+      status: 403,
+      error: 'MINTER_DENIED',
+      message: `Minter ${payload.minter} is denied`,
+    };
+  }
+  if (policy?.allowlist && !policy.allowlist.includes(minter)) {
+    return {
+      status: 403,
+      error: 'MINTER_NOT_ALLOWED',
+      message: `Minter ${payload.minter} is not on the allowlist`,
+    };
+  }
+  if (payload.waiveMintFee && !policy?.allowWaiveMintFee) {
+    return {
+      status: 403,
+      error: 'WAIVE_MINT_FEE_NOT_ALLOWED',
+      message: 'waiveMintFee is not allowed for this collection',
+    };
+  }
+  if (policy?.maxQtyPerRequest && payload.qty > policy.maxQtyPerRequest) {
+    return {
+      status: 403,
+      error: 'QTY_EXCEEDS_REQUEST_LIMIT',
+      message: `qty exceeds the per request limit of ${policy.maxQtyPerRequest}`,
+    };
+  }
+  if (
+    policy?.maxQtyPerMinter &&
+    cosignedQty + payload.qty > policy.maxQtyPerMinter
+  ) {
+    return {
+      status: 403,
+      error: 'QTY_EXCEEDS_MINTER_LIMIT',
+      message: `qty exceeds the per minter limit of ${
+        policy.maxQtyPerMinter
+      } (${cosignedQty} already cosigned)`,
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Returns the quantity cosigned for a minter across the collection, or within
+ * one window when `windowId` is set. KV has no atomic read-modify-write, so
+ * concurrent requests for the same minter can both pass `maxQtyPerMinter`:
+ * treat the limit as best-effort, the contract wallet limits still apply.
+ */
+export const getCosignedQty = async (
+  kv: IKeyValueStore,
+  collectionContract: string,
+  chainId: number,
+  minter: string,
+  windowId?: string,
+): Promise<number> => {
+  const value = await kv.get(
+    cosignedQtyKey(collectionContract, chainId, minter, windowId),
+  );
+  return value ? Number(value) : 0;
+};
+
+export const setCosignedQty = async (
+  kv: IKeyValueStore,
+  collectionContract: string,
+  chainId: number,
+  minter: string,
+  qty: number,
+  windowId?: string,
+) => {
+  await kv.put(
+    cosignedQtyKey(collectionContract, chainId, minter, windowId),
+    String(qty),
+  );
+};
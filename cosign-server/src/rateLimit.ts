@@ -0,0 +1,102 @@
+import { IKeyValueStore, IRateLimitConfig, ITokenBucketConfig } from './types';
+
+interface IBucketState {
+  tokens: number;
+  updatedAt: number; // unix timestamp in seconds
+}
+
+// KV rejects expirationTtl values below 60 seconds
+const MIN_BUCKET_TTL_SECONDS = 60;
+
+export const DEFAULT_RATE_LIMIT: Required<IRateLimitConfig> = {
+  minter: { capacity: 10, refillPerSecond: 0.2 },
+  ip: { capacity: 30, refillPerSecond: 1 },
+};
+
+const bucketKey = (
+  collectionContract: string,
+  scope: keyof IRateLimitConfig,
+  id: string,
+) =>
+  `ratelimit:v1:${collectionContract.toLowerCase()}:${scope}:${id.toLowerCase()}`;
+
+/**
+ * Validates a rate limit config submitted by an admin. Throws with a 400
+ * status when a bucket is malformed.
+ */
+export const normalizeRateLimit = (
+  rateLimit: IRateLimitConfig,
+): IRateLimitConfig => {
+  for (const scope of ['minter', 'ip'] as const) {
+    const bucket = rateLimit[scope];
+    if (bucket === undefined) continue;
+    if (
+      !Number.isInteger(bucket.capacity) ||
+      bucket.capacity <= 0 ||
+      typeof bucket.refillPerSecond !== 'number' ||
+      bucket.refillPerSecond <= 0
+    ) {
+      throw Object.assign(
+        new Error(
+          `Invalid rateLimit: ${scope} needs a positive integer capacity and a positive refillPerSecond`,
+        ),
+        { status: 400 },
+      );
+    }
+  }
+  return rateLimit;
+};
+
+/**
+ * Takes one token from the bucket stored under `key`. Returns the number of
+ * seconds to wait when the bucket is empty, or undefined when the request is
+ * allowed. KV is eventually consistent, so bursts across edge locations can
+ * slightly exceed the configured capacity.
+ */
+const consumeToken = async (
+  kv: IKeyValueStore,
+  key: string,
+  config: ITokenBucketConfig,
+  now: number,
+): Promise<number | undefined> => {
+  const state = await kv.get<IBucketState>(key, 'json');
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const tokens = state
+    ? Math.min(config.capacity, state.tokens + elapsed * config.refillPerSecond)
+    : config.capacity;
+
+  if (tokens < 1) {
+    return Math.ceil((1 - tokens) / config.refillPerSecond);
+  }
+
+  const next: IBucketState = { tokens: tokens - 1, updatedAt: now };
+  await kv.put(key, JSON.stringify(next), {
+    expirationTtl: Math.max(
+      MIN_BUCKET_TTL_SECONDS,
+      Math.ceil(config.capacity / config.refillPerSecond),
+    ),
+  });
+  return undefined;
+};
+
+/**
+ * Applies one bucket of a collection, keyed by the minter address or the
+ * client IP depending on `scope`. Returns the number of seconds to wait when
+ * the bucket is empty.
+ */
+export const checkRateLimit = async (
+  kv: IKeyValueStore,
+  collectionContract: string,
+  rateLimit: IRateLimitConfig | undefined,
+  scope: keyof IRateLimitConfig,
+  id: string,
+  now: number,
+): Promise<number | undefined> => {
+  const config = { ...DEFAULT_RATE_LIMIT, ...rateLimit };
+  return consumeToken(
+    kv,
+    bucketKey(collectionContract, scope, id),
+    config[scope],
+    now,
+  );
+};
@@ -0,0 +1,60 @@
+import { getAddress } from '@ethersproject/address';
+import { recoverAddress } from '@ethersproject/transactions';
+import { IRemoteSignerConfig, ISigner } from './types';
+
+/**
+ * Delegates signing to an HTTP service that holds the key:
+ *
+ * - `GET ${url}/address` responds `{ address }`
+ * - `POST ${url}/sign` with `{ digest }` responds `{ signature }`
+ *
+ * Signatures are checked against the address before they are used.
+ */
+export const createRemoteSigner = (
+  config: IRemoteSignerConfig,
+  fetchFn: typeof fetch = fetch,
+): ISigner => {
+  const url = config.url.replace(/\/$/, '');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (config.authToken) headers.Authorization = `Bearer ${config.authToken}`;
+
+  const call = async <T>(path: string, body?: object): Promise<T> => {
+    const res = await fetchFn(`${url}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!res.ok) {
+      throw new Error(`Remote signer ${path} failed with ${res.status}`);
+    }
+    return (await res.json()) as T;
+  };
+
+  let address: Promise<string> | undefined;
+  const getSignerAddress = () => {
+    if (!address) {
+      address = call<{ address: string }>('/address').then((res) =>
+        getAddress(res.address),
+      );
+      // retry on the next call instead of caching a failure
+      address.catch(() => (address = undefined));
+    }
+    return address;
+  };
+
+  return {
+    getAddress: getSignerAddress,
+    signDigest: async (digest) => {
+      const expected = await getSignerAddress();
+      const { signature } = await call<{ signature: string }>('/sign', {
+        digest,
+      });
+      if (recoverAddress(digest, signature) !== expected) {
+        throw new Error(`Remote signer did not sign as ${expected}`);
+      }
+      return signature;
+    },
+  };
+};
@@ -0,0 +1,889 @@
+import { Router, Request as IRequest } from 'itty-router';
+import {
+  canAccessCollection,
+  createApiKey,
+  findApiKey,
+  hasRole,
+  listApiKeys,
+  revokeApiKey,
+  validateApiKeyRequest,
+} from './apiKeys';
+import { AUDIT_MESSAGE, createAuditSink, listAuditEntries } from './audit';
+import {
+  exportCollections,
+  importCollections,
+  IMPORT_CONFLICT_STRATEGIES,
+  validateBundle,
+} from './bundle';
+import {
+  deleteCollection,
+  getCollection,
+  isCollectionField,
+  listCollections,
+  migrateCollections,
+  putCollection,
+  toChainId,
+  toChecksumAddress,
+  validateCollection,
+} from './collections';
+import {
+  CosignOutcome,
+  createCosignBatch,
+  ICosignBatch,
+  ICosignClient,
+  processCosignRequest,
+} from './cosign';
+import { getCorsHeaders, isCollectionOrigin, isOriginAllowed } from './cors';
+import { createDatadogSink } from './datadog';
+import { checkHealth } from './health';
+import { createKeyring, DEFAULT_KEY_ID, resolveCosignerKeyId } from './keyring';
+import { consoleSink, createLogger, ILogger, ILogSink } from './logger';
+import { createMetricsSink, listMetrics } from './metrics';
+import { listNonces } from './nonces';
+import { getCosignSchema } from './signing';
+import { verifyCosign } from './verify';
+import {
+  ApiKeyRole,
+  CosignDecision,
+  ICollection,
+  ICollectionBundle,
+  ICollectionRequest,
+  ICosignAuditEntry,
+  ICosignBatchError,
+  ICosignRequest,
+  ICosignResponse,
+  ICosignServerConfig,
+  ICosignVerifyRequest,
+  IApiKey,
+  IApiKeyRequest,
+  IKeyValueStore,
+  ImportConflictStrategy,
+  IRotateCosignerRequest,
+} from './types';
+
+export interface IRequestContext {
+  waitUntil(promise: Promise<unknown>): void;
+  clientIp: string | null;
+}
+
+/**
+ * Compares two strings in constant time for equal length inputs.
+ */
+const timingSafeEqualStr = (a: string, b: string): boolean => {
+  const bufA = new TextEncoder().encode(a);
+  const bufB = new TextEncoder().encode(b);
+  if (bufA.length !== bufB.length || bufB.length === 0) return false;
+  let diff = 0;
+  for (let i = 0; i < bufA.length; i++) {
+    diff |= bufA[i] ^ bufB[i];
+  }
+  return diff === 0;
+};
+
+type IAdminRequest = Request & IRequest & { apiKey: IApiKey };
+
+const MAX_BATCH_SIZE = 50;
+
+const ADMIN_KEY_RECORD: IApiKey = {
+  id: 'admin-key',
+  name: 'ADMIN_KEY',
+  role: 'super-admin',
+  createdAt: 0,
+};
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+/**
+ * Builds the request handler shared by the Worker and Node entrypoints.
+ */
+export const createHandler = (
+  config: ICosignServerConfig,
+  kv: IKeyValueStore,
+) => {
+  const router = Router();
+  const keyring = createKeyring(config.signers);
+
+  /**
+   * Builds the logger for a request from the configured sinks.
+   */
+  const getLogger = (request: Request, ctx: IRequestContext): ILogger => {
+    const sinks: ILogSink[] = [];
+    if (config.logSinks.includes('datadog') && config.datadogApiKey) {
+      sinks.push(
+        createDatadogSink(
+          config.datadogApiKey,
+          request.headers.get('host') || '',
+        ),
+      );
+    }
+    if (config.logSinks.includes('console')) sinks.push(consoleSink);
+    if (config.logSinks.includes('audit')) sinks.push(createAuditSink(kv));
+    if (config.logSinks.includes('metrics')) {
+      sinks.push(createMetricsSink(kv));
+    }
+    return createLogger(sinks, (promise) => ctx.waitUntil(promise));
+  };
+
+  /**
+   * Resolves the `x-admin-key` header to an API key. `ADMIN_KEY` acts as a
+   * super-admin key so that the first API keys can be created.
+   */
+  const authenticate = async (request: Request) => {
+    const key = request.headers.get('x-admin-key') || '';
+    if (timingSafeEqualStr(key, config.adminKey)) return ADMIN_KEY_RECORD;
+    return findApiKey(kv, key);
+  };
+
+  /**
+   * Middleware for admin routes, responds 401 unless `x-admin-key` is a known
+   * key and 403 when its role is below `role`.
+   */
+  const withRole = (role: ApiKeyRole) => async (request: IAdminRequest) => {
+    const apiKey = await authenticate(request);
+    if (!apiKey) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+    if (!hasRole(apiKey, role)) {
+      return new Response('Forbidden', { status: 403 });
+    }
+    request.apiKey = apiKey;
+  };
+
+  /**
+   * Responds 403 when the API key of the request is scoped to other
+   * collections.
+   */
+  const checkCollectionAccess = (request: IAdminRequest, address: string) => {
+    if (!canAccessCollection(request.apiKey, address)) {
+      return new Response(`Forbidden for collection ${address}`, {
+        status: 403,
+      });
+    }
+  };
+
+  const collectionResponse = (collection: ICollection, status = 200) =>
+    jsonResponse(collection, status, { ETag: `"${collection.version}"` });
+
+  /**
+   * Responds 412 when the request carries an `If-Match` header that does not
+   * match the current version of the collection.
+   */
+  const checkIfMatch = (request: Request, collection: ICollection) => {
+    const ifMatch = request.headers.get('if-match');
+    if (ifMatch && ifMatch !== '*' && ifMatch !== `"${collection.version}"`) {
+      return new Response('Collection was modified', { status: 412 });
+    }
+  };
+
+  router.get('/', () => new Response('ERC721M Cosign Server v0.0.2'));
+
+  router.get('/health', async () => {
+    const report = await checkHealth(kv, keyring);
+    return jsonResponse(report, report.status === 'ok' ? 200 : 503);
+  });
+
+  router.get(
+    '/metrics',
+    withRole('read-only'),
+    async (request: IAdminRequest) => {
+      const { collection, cursor } = request.query ?? {};
+      if (request.apiKey.role === 'collection-editor' && !collection) {
+        return new Response('collection is required for scoped keys', {
+          status: 403,
+        });
+      }
+      if (collection) {
+        const forbidden = checkCollectionAccess(request, collection);
+        if (forbidden) return forbidden;
+      }
+      return jsonResponse(
+        await listMetrics(kv, {
+          collection: collection ? toChecksumAddress(collection) : undefined,
+          cursor,
+        }),
+      );
+    },
+  );
+
+  /**
+   * Active cosigner addresses, to compare with `getCosigner()` on-chain.
+   * With `collection` and `chainId`, returns the address that currently signs
+   * for that collection, and the one taking over during a rotation.
+   */
+  router.get('/signer', async (request: Request & IRequest) => {
+    const { collection: address, chainId } = request.query ?? {};
+    const getCosignerAddress = (keyId: string) =>
+      keyring.getCosigner(keyId).getAddress();
+    if (!address) {
+      const keyIds = keyring.getKeyIds();
+      return jsonResponse({
+        default: keyIds.includes(DEFAULT_KEY_ID)
+          ? await getCosignerAddress(DEFAULT_KEY_ID)
+          : undefined,
+        cosigners: [
+          ...new Set(await Promise.all(keyIds.map(getCosignerAddress))),
+        ],
+      });
+    }
+
+    const collection = await getCollection(
+      kv,
+      toChecksumAddress(address),
+      toChainId(chainId),
+    );
+    if (!collection) {
+      return new Response('Collection not found', { status: 404 });
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const cosigner = await getCosignerAddress(
+      resolveCosignerKeyId(collection, now),
+    );
+    const nextCosigner = await getCosignerAddress(
+      collection.cosignerKeyId ?? DEFAULT_KEY_ID,
+    );
+    return jsonResponse({
+      collection: collection.collectionContract,
+      chainId: collection.chainId,
+      cosigner,
+      nextCosigner: nextCosigner !== cosigner ? nextCosigner : undefined,
+      activatesAt:
+        nextCosigner !== cosigner ? collection.cosignerActivatesAt : undefined,
+    });
+  });
+
+  router.post(
+    '/collections',
+    withRole('collection-editor'),
+    async (request: IAdminRequest) => {
+      const payload = validateCollection(
+        await request.json<ICollectionRequest>(),
+        keyring.getKeyIds(),
+        config.rpcUrls,
+      );
+      const forbidden = checkCollectionAccess(
+        request,
+        payload.collectionContract,
+      );
+      if (forbidden) return forbidden;
+      if (
+        await getCollection(kv, payload.collectionContract, payload.chainId)
+      ) {
+        return new Response('Collection already exists', { status: 409 });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const collection: ICollection = {
+        ...payload,
+        schemaVersion: 2,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await putCollection(kv, collection);
+      return collectionResponse(collection, 201);
+    },
+  );
+
+  router.get(
+    '/collections',
+    withRole('read-only'),
+    async (request: IAdminRequest) => {
+      const res = await listCollections(kv, {
+        cursor: request.query?.cursor,
+        limit: Number(request.query?.limit) || undefined,
+      });
+      // scoped keys only see their collections, so a page may come up short
+      return jsonResponse({
+        ...res,
+        collections: res.collections.filter((collection) =>
+          canAccessCollection(request.apiKey, collection.collectionContract),
+        ),
+      });
+    },
+  );
+
+  router.post(
+    '/collections/migrate',
+    withRole('super-admin'),
+    async (request: IAdminRequest) => {
+      const { chainIds } = await request.json<{ chainIds: unknown[] }>();
+      if (!Array.isArray(chainIds) || chainIds.length === 0) {
+        return new Response('chainIds is required', { status: 400 });
+      }
+      const migrated = await migrateCollections(kv, chainIds.map(toChainId));
+      return jsonResponse({ migrated });
+    },
+  );
+
+  router.get(
+    '/collections/:address/:chainId',
+    withRole('read-only'),
+    async (request: IAdminRequest) => {
+      const address = toChecksumAddress(request.params?.address);
+      const chainId = toChainId(request.params?.chainId);
+      const forbidden = checkCollectionAccess(request, address);
+      if (forbidden) return forbidden;
+      const collection = await getCollection(kv, address, chainId);
+      if (!collection) {
+        return new Response('Collection not found', { status: 404 });
+      }
+      return collectionResponse(collection);
+    },
+  );
+
+  router.put(
+    '/collections/:address/:chainId',
+    withRole('collection-editor'),
+    async (request: IAdminRequest) => {
+      const address = toChecksumAddress(request.params?.address);
+      const chainId = toChainId(request.params?.chainId);
+      const forbidden = checkCollectionAccess(request, address);
+      if (forbidden) return forbidden;
+      const payload = validateCollection(
+        {
+          ...(await request.json<ICollectionRequest>()),
+          collectionContract: address,
+          chainId,
+        },
+        keyring.getKeyIds(),
+        config.rpcUrls,
+      );
+
+      const existing = await getCollection(kv, address, chainId);
+      if (existing) {
+        const conflict = checkIfMatch(request, existing);
+        if (conflict) return conflict;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const collection: ICollection = {
+        ...payload,
+        schemaVersion: 2,
+        version: (existing?.version ?? 0) + 1,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await putCollection(kv, collection);
+      return collectionResponse(collection, existing ? 200 : 201);
+    },
+  );
+
+  router.patch(
+    '/collections/:address/:chainId',
+    withRole('collection-editor'),
+    async (request: IAdminRequest) => {
+      const address = toChecksumAddress(request.params?.address);
+      const chainId = toChainId(request.params?.chainId);
+      const forbidden = checkCollectionAccess(request, address);
+      if (forbidden) return forbidden;
+      const existing = await getCollection(kv, address, chainId);
+      if (!existing) {
+        return new Response('Collection not found', { status: 404 });
+      }
+      const conflict = checkIfMatch(request, existing);
+      if (conflict) return conflict;
+
+      // top level fields are replaced, a null value removes the field
+      const patch = await request.json<Record<string, unknown>>();
+      if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+        return new Response('Expected a JSON object', { status: 400 });
+      }
+      const unknownFields = Object.keys(patch).filter(
+        (field) =>
+          !isCollectionField(field) ||
+          field === 'collectionContract' ||
+          field === 'chainId',
+      );
+      if (unknownFields.length > 0) {
+        return new Response(
+          `Fields cannot be patched: ${unknownFields.join(', ')}`,
+          { status: 400 },
+        );
+      }
+      const merged: Record<string, unknown> = { ...existing };
+      for (const [field, value] of Object.entries(patch)) {
+        if (value === null) {
+          delete merged[field];
+        } else {
+          merged[field] = value;
+        }
+      }
+      const payload = validateCollection(
+        {
+          ...(merged as unknown as ICollectionRequest),
+          collectionContract: address,
+          chainId,
+        },
+        keyring.getKeyIds(),
+        config.rpcUrls,
+      );
+
+      const collection: ICollection = {
+        ...payload,
+        schemaVersion: 2,
+        version: existing.version + 1,
+        createdAt: existing.createdAt,
+        updatedAt: Math.floor(Date.now() / 1000),
+      };
+      await putCollection(kv, collection);
+      return collectionResponse(collection);
+    },
+  );
+
+  router.post(
+    '/collections/:address/:chainId/rotate-cosigner',
+    withRole('collection-editor'),
+    async (request: IAdminRequest) => {
+      const address = toChecksumAddress(request.params?.address);
+      const chainId = toChainId(request.params?.chainId);
+      const forbidden = checkCollectionAccess(request, address);
+      if (forbidden) return forbidden;
+      const existing = await getCollection(kv, address, chainId);
+      if (!existing) {
+        return new Response('Collection not found', { status: 404 });
+      }
+      const conflict = checkIfMatch(request, existing);
+      if (conflict) return conflict;
+
+      const { cosignerKeyId, overlapSeconds = 0 } =
+        await request.json<IRotateCosignerRequest>();
+      if (
+        typeof cosignerKeyId !== 'string' ||
+        !keyring.getKeyIds().includes(cosignerKeyId)
+      ) {
+        return new Response(
+          `cosignerKeyId must be one of ${keyring.getKeyIds().join(', ')}`,
+          { status: 400 },
+        );
+      }
+      if (!Number.isInteger(overlapSeconds) || overlapSeconds < 0) {
+        return new Response('overlapSeconds must be a non-negative integer', {
+          status: 400,
+        });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const payload = validateCollection(
+        {
+          ...existing,
+          cosignerKeyId,
+          previousCosignerKeyId: resolveCosignerKeyId(existing, now),
+          cosignerActivatesAt: now + overlapSeconds,
+        },
+        keyring.getKeyIds(),
+        config.rpcUrls,
+      );
+      const collection: ICollection = {
+        ...payload,
+        schemaVersion: 2,
+        version: existing.version + 1,
+        createdAt: existing.createdAt,
+        updatedAt: now,
+      };
+      await putCollection(kv, collection);
+      return jsonResponse(
+        {
+          collection,
+          cosigner: await keyring.getCosigner(cosignerKeyId).getAddress(),
+          previousCosigner: await keyring
+            .getCosigner(collection.previousCosignerKeyId)
+            .getAddress(),
+        },
+        200,
+        { ETag: `"${collection.version}"` },
+      );
+    },
+  );
+
+  router.get('/keyring', withRole('read-only'), async () =>
+    jsonResponse(
+      await Promise.all(
+        keyring.getKeyIds().map(async (keyId) => ({
+          keyId,
+          address: await keyring.getCosigner(keyId).getAddress(),
+        })),
+      ),
+    ),
+  );
+
+  router.delete(
+    '/collections/:address/:chainId',
+    withRole('collection-editor'),
+    async (request: IAdminRequest) => {
+      const address = toChecksumAddress(request.params?.address);
+      const chainId = toChainId(request.params?.chainId);
+      const forbidden = checkCollectionAccess(request, address);
+      if (forbidden) return forbidden;
+      const existing = await getCollection(kv, address, chainId);
+      if (!existing) {
+        return new Response('Collection not found', { status: 404 });
+      }
+      const conflict = checkIfMatch(request, existing);
+      if (conflict) return conflict;
+
+      await deleteCollection(kv, address, chainId);
+      return new Response(null, { status: 204 });
+    },
+  );
+
+  const getCosignClient = (
+    request: Request,
+    ctx: IRequestContext,
+  ): ICosignClient => ({
+    ip: ctx.clientIp,
+    origin: request.headers.get('origin'),
+  });
+
+  /**
+   * Runs a cosign request and records the decision in the audit log.
+   * Exceptions are audited as errors and rethrown.
+   */
+  const runCosign = async (
+    logger: ILogger,
+    payload: ICosignRequest,
+    client: ICosignClient,
+    timestamp: number,
+    batch?: ICosignBatch,
+  ): Promise<CosignOutcome> => {
+    const startedAt = Date.now();
+    const audit = (fields: Partial<ICosignAuditEntry>) =>
+      logger.log(
+        AUDIT_MESSAGE,
+        {
+          // logged as sent, the request may not have passed validation
+          collection:
+            typeof payload.collectionContract === 'string'
+              ? payload.collectionContract.toLowerCase()
+              : undefined,
+          chainId: payload.chainId,
+          minter: payload.minter,
+          qty: payload.qty,
+          nonce: payload.nonce,
+          waiveMintFee: payload.waiveMintFee ?? false,
+          latencyMs: Date.now() - startedAt,
+          ...fields,
+        },
+        fields.decision === 'signed'
+          ? 'info'
+          : fields.decision === 'error'
+            ? 'error'
+            : 'warn',
+      );
+
+    let outcome: CosignOutcome;
+    try {
+      outcome = await processCosignRequest(
+        {
+          kv,
+          keyring,
+          rpcUrls: config.rpcUrls,
+          allowedOrigins: config.allowedOrigins,
+        },
+        payload,
+        client,
+        timestamp,
+        batch,
+      );
+    } catch (e: any) {
+      audit({ decision: 'error', reason: e.message });
+      throw e;
+    }
+
+    if (outcome.decision !== 'signed') {
+      const { decision, status, error, message, headers, ...fields } = outcome;
+      audit({ ...fields, decision, reason: error });
+      return outcome;
+    }
+    audit({
+      decision: 'signed',
+      nonce: outcome.response.nonce,
+      cosigner: outcome.response.cosigner,
+      windowId: outcome.response.windowId,
+    });
+    return outcome;
+  };
+
+  router.post(
+    '/cosign',
+    async (request: Request & IRequest, ctx: IRequestContext) => {
+      const payload = await request.json<ICosignRequest>();
+      // timestamp is unix timestamp in seconds
+      const timestamp = Math.floor(new Date().getTime() / 1000);
+
+      const outcome = await runCosign(
+        getLogger(request, ctx),
+        payload,
+        getCosignClient(request, ctx),
+        timestamp,
+      );
+      if (outcome.decision !== 'signed') {
+        const { status, error, message, headers } = outcome;
+        return jsonResponse({ error, message }, status, headers);
+      }
+      return jsonResponse(outcome.response);
+    },
+  );
+
+  router.post(
+    '/cosign/batch',
+    async (request: Request & IRequest, ctx: IRequestContext) => {
+      const payloads = await request.json<ICosignRequest[]>();
+      if (
+        !Array.isArray(payloads) ||
+        payloads.length === 0 ||
+        payloads.length > MAX_BATCH_SIZE
+      ) {
+        return jsonResponse(
+          {
+            error: 'INVALID_BATCH',
+            message: `Expected an array of 1 to ${MAX_BATCH_SIZE} cosign requests`,
+          },
+          400,
+        );
+      }
+
+      // every item is signed with the same timestamp, one after the other so
+      // that per minter limits and nonces account for earlier items
+      const timestamp = Math.floor(new Date().getTime() / 1000);
+      const logger = getLogger(request, ctx);
+      const batch = createCosignBatch();
+      const results: (ICosignResponse | ICosignBatchError)[] = [];
+      for (const payload of payloads) {
+        if (typeof payload !== 'object' || payload === null) {
+          results.push({
+            status: 400,
+            error: 'INVALID_REQUEST',
+            message: 'Each item must be a cosign request',
+          });
+          continue;
+        }
+        try {
+          const outcome = await runCosign(
+            logger,
+            payload,
+            getCosignClient(request, ctx),
+            timestamp,
+            batch,
+          );
+          if (outcome.decision === 'signed') {
+            results.push(outcome.response);
+          } else {
+            const { status, error, message } = outcome;
+            results.push({ status, error, message });
+          }
+        } catch (e: any) {
+          results.push({
+            status: e.status || 500,
+            error: 'COSIGN_FAILED',
+            message: e.message || 'Internal Server Error',
+          });
+        }
+      }
+      return jsonResponse(results);
+    },
+  );
+
+  /**
+   * Explains why a signature from `/cosign` does not pass on-chain.
+   */
+  router.post('/cosign/verify', async (request: Request & IRequest) =>
+    jsonResponse(
+      await verifyCosign(
+        { kv, keyring, rpcUrls: config.rpcUrls },
+        await request.json<ICosignVerifyRequest>(),
+        Math.floor(Date.now() / 1000),
+      ),
+    ),
+  );
+
+  router.get(
+    '/audit',
+    withRole('read-only'),
+    async (request: IAdminRequest) => {
+      const { collection, decision, waived, cursor, limit } =
+        request.query ?? {};
+      if (request.apiKey.role === 'collection-editor' && !collection) {
+        return new Response('collection is required for scoped keys', {
+          status: 403,
+        });
+      }
+      if (collection) {
+        const forbidden = checkCollectionAccess(request, collection);
+        if (forbidden) return forbidden;
+      }
+      const res = await listAuditEntries(kv, {
+        collection: collection ? toChecksumAddress(collection) : undefined,
+        decision: decision as CosignDecision | undefined,
+        waiveMintFee: waived === undefined ? undefined : waived === 'true',
+        cursor,
+        limit: Number(limit) || undefined,
+      });
+      return jsonResponse(res);
+    },
+  );
+
+  router.post(
+    '/admin/keys',
+    withRole('super-admin'),
+    async (request: IAdminRequest) => {
+      const payload = validateApiKeyRequest(
+        await request.json<IApiKeyRequest>(),
+      );
+      const { key, apiKey } = await createApiKey(
+        kv,
+        payload,
+        Math.floor(Date.now() / 1000),
+      );
+      return jsonResponse({ ...apiKey, key }, 201);
+    },
+  );
+
+  router.get(
+    '/admin/keys',
+    withRole('super-admin'),
+    async (request: IAdminRequest) =>
+      jsonResponse(await listApiKeys(kv, request.query?.cursor)),
+  );
+
+  router.delete(
+    '/admin/keys/:id',
+    withRole('super-admin'),
+    async (request: IAdminRequest) => {
+      if (!(await revokeApiKey(kv, request.params?.id ?? ''))) {
+        return new Response('API key not found', { status: 404 });
+      }
+      return new Response(null, { status: 204 });
+    },
+  );
+
+  router.get('/admin/export', withRole('super-admin'), async () =>
+    jsonResponse(await exportCollections(kv, Math.floor(Date.now() / 1000))),
+  );
+
+  /**
+   * Imports a bundle from `GET /admin/export`. `?conflict=` picks what happens
+   * to collections that already exist with a different config (defaults to
+   * `fail`), `?dryRun=true` returns the plan without writing.
+   */
+  router.post(
+    '/admin/import',
+    withRole('super-admin'),
+    async (request: IAdminRequest) => {
+      const { conflict = 'fail', dryRun } = request.query ?? {};
+      if (!IMPORT_CONFLICT_STRATEGIES.includes(conflict as never)) {
+        return new Response(
+          `conflict must be one of ${IMPORT_CONFLICT_STRATEGIES.join(', ')}`,
+          { status: 400 },
+        );
+      }
+      const collections = validateBundle(
+        await request.json<ICollectionBundle>(),
+        keyring.getKeyIds(),
+        config.rpcUrls,
+      );
+      const result = await importCollections(
+        kv,
+        collections,
+        {
+          conflict: conflict as ImportConflictStrategy,
+          dryRun: dryRun === 'true',
+        },
+        Math.floor(Date.now() / 1000),
+      );
+      if (!result.dryRun && !result.applied) {
+        return jsonResponse(
+          {
+            error: 'IMPORT_CONFLICT',
+            message: 'Some collections already exist with a different config',
+            ...result,
+          },
+          409,
+        );
+      }
+      return jsonResponse(result);
+    },
+  );
+
+  router.get('/cosign/schema', () => jsonResponse(getCosignSchema()));
+
+  router.get(
+    '/cosign/:collection/:minter/nonces',
+    async (request: Request & IRequest) => {
+      const { collection, minter } = request.params ?? {};
+      const res = await listNonces(
+        kv,
+        collection,
+        minter,
+        request.query?.chainId ? toChainId(request.query.chainId) : undefined,
+        request.query?.cursor,
+      );
+      return jsonResponse(res);
+    },
+  );
+
+  // 404 for everything else
+  router.all('*', () => new Response('Not Found.', { status: 404 }));
+
+  /**
+   * Generic Error Handler
+   */
+  const errorHandler = (error: any, request: Request, ctx: IRequestContext) => {
+    getLogger(request, ctx).log(
+      error.message,
+      {
+        error: {
+          message: error.message,
+          stack: error.stack,
+          code: error.code,
+        },
+      },
+      'error',
+    );
+    return new Response(error.message || 'Internal Server Error', {
+      status: error.status || 500,
+    });
+  };
+
+  /**
+   * Admin routes only accept the global origins. The public cosign routes
+   * also accept origins listed by any collection, and `/cosign` then checks
+   * the origin against the collection of the request.
+   */
+  const isCorsAllowed = async (request: Request, origin: string | null) => {
+    if (!origin || isOriginAllowed(origin, config.allowedOrigins)) return true;
+    const { pathname } = new URL(request.url);
+    return (
+      (pathname === '/cosign' || pathname.startsWith('/cosign/')) &&
+      isCollectionOrigin(kv, origin)
+    );
+  };
+
+  return async (request: Request, ctx: IRequestContext): Promise<Response> => {
+    const origin = request.headers.get('origin');
+    const corsHeaders = getCorsHeaders(
+      origin,
+      await isCorsAllowed(request, origin),
+    );
+    if (request.method.toLowerCase() === 'options') {
+      return new Response(null, {
+        status: corsHeaders['Access-Control-Allow-Origin'] ? 204 : 403,
+        headers: corsHeaders,
+      });
+    }
+    const response: Response = await router
+      .handle(request, ctx)
+      .catch((err) => errorHandler(err, request, ctx));
+    for (const [name, value] of Object.entries(corsHeaders)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+};
@@ -0,0 +1,121 @@
+import { _TypedDataEncoder, hashMessage } from '@ethersproject/hash';
+import { keccak256 } from '@ethersproject/solidity';
+import { arrayify } from '@ethersproject/bytes';
+import { ISigner, SigningMode } from './types';
+
+export interface ICosignParams {
+  collectionContract: string;
+  chainId: number;
+  minter: string;
+  qty: number;
+  waiveMintFee: boolean;
+  cosigner: string;
+  timestamp: number;
+  nonce: number;
+}
+
+export const SIGNING_MODES: SigningMode[] = ['packed', 'eip712'];
+
+/**
+ * Field order of the packed digest, matching `Cosignable.getCosignDigest`.
+ */
+const PACKED_FIELDS: [keyof ICosignParams, string][] = [
+  ['collectionContract', 'address'],
+  ['minter', 'address'],
+  ['qty', 'uint32'],
+  ['waiveMintFee', 'bool'],
+  ['cosigner', 'address'],
+  ['timestamp', 'uint256'],
+  ['chainId', 'uint256'],
+  ['nonce', 'uint256'],
+];
+
+export const COSIGN_EIP712_DOMAIN = { name: 'MagicDropCosign', version: '1' };
+
+export const COSIGN_EIP712_TYPES = {
+  Cosign: [
+    { name: 'minter', type: 'address' },
+    { name: 'qty', type: 'uint32' },
+    { name: 'waiveMintFee', type: 'bool' },
+    { name: 'cosigner', type: 'address' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+export const getCosignDomain = (
+  collectionContract: string,
+  chainId: number,
+) => ({
+  ...COSIGN_EIP712_DOMAIN,
+  chainId,
+  verifyingContract: collectionContract,
+});
+
+/**
+ * Returns the raw keccak256 of the packed fields. The contract prefixes it
+ * with "\x19Ethereum Signed Message:\n32" before recovering the signer.
+ */
+export const getPackedCosignDigest = (params: ICosignParams): string =>
+  keccak256(
+    PACKED_FIELDS.map(([, type]) => type),
+    PACKED_FIELDS.map(([field]) =>
+      field === 'collectionContract'
+        ? params.collectionContract.toLowerCase()
+        : params[field],
+    ),
+  );
+
+/**
+ * Returns the 32 byte hash the cosigner signs: the EIP-712 hash, or the
+ * EIP-191 hash of the packed digest.
+ */
+export const getCosignSigningHash = (
+  mode: SigningMode,
+  params: ICosignParams,
+): string => {
+  if (mode === 'eip712') {
+    return _TypedDataEncoder.hash(
+      getCosignDomain(params.collectionContract, params.chainId),
+      COSIGN_EIP712_TYPES,
+      params,
+    );
+  }
+  return hashMessage(arrayify(getPackedCosignDigest(params)));
+};
+
+export const signCosign = async (
+  cosigner: ISigner,
+  mode: SigningMode,
+  params: ICosignParams,
+): Promise<string> => cosigner.signDigest(getCosignSigningHash(mode, params));
+
+/**
+ * Describes both signing modes so that clients can rebuild and verify a
+ * signature locally.
+ */
+export const getCosignSchema = () => ({
+  modes: SIGNING_MODES,
+  packed: {
+    fields: PACKED_FIELDS.map(([name, type]) => ({ name, type })),
+    hash: 'keccak256(abi.encodePacked(fields))',
+    signature: 'personal_sign (EIP-191) over the 32 byte hash',
+  },
+  eip712: {
+    domain: {
+      ...COSIGN_EIP712_DOMAIN,
+      chainId: 'chainId of the collection',
+      verifyingContract: 'collectionContract',
+    },
+    primaryType: 'Cosign',
+    types: {
+      EIP712Domain: [
+        { name: 'name', type: 'string' },
+        { name: 'version', type: 'string' },
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' },
+      ],
+      ...COSIGN_EIP712_TYPES,
+    },
+  },
+});
@@ -1,14 +1,338 @@
+/**
+ * The subset of a Cloudflare KV namespace the server relies on, so that other
+ * stores can be plugged in outside of Workers.
+ */
+export interface IKeyValueStore {
+  get(key: string): Promise<string | null>;
+  get<T>(key: string, type: 'json'): Promise<T | null>;
+  put(
+    key: string,
+    value: string,
+    options?: { expirationTtl?: number; metadata?: unknown },
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+  list<Metadata = unknown>(options?: {
+    prefix?: string;
+    cursor?: string;
+    limit?: number;
+  }): Promise<{
+    keys: { name: string; metadata?: Metadata }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+/**
+ * Signs 32 byte digests for one cosigner address, wherever the key lives.
+ */
+export interface ISigner {
+  getAddress(): Promise<string>;
+  signDigest(digest: string): Promise<string>; // 65 byte r, s, v signature
+}
+
+export interface ILocalSignerConfig {
+  type: 'local';
+  privateKey: string;
+}
+
+export interface IKmsSignerConfig {
+  type: 'kms';
+  keyId: string; // ECC_SECG_P256K1 key ID or ARN
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  endpoint?: string; // defaults to https://kms.${region}.amazonaws.com
+}
+
+export interface IRemoteSignerConfig {
+  type: 'remote';
+  url: string; // serves GET /address and POST /sign
+  authToken?: string; // sent as a bearer token
+}
+
+export type SignerConfig =
+  | ILocalSignerConfig
+  | IKmsSignerConfig
+  | IRemoteSignerConfig;
+
+export interface ICosignServerConfig {
+  adminKey: string;
+  signers: Record<string, SignerConfig>; // key ID to signer
+  rpcUrls: Record<string, string>; // chain ID to JSON-RPC URL
+  datadogApiKey?: string;
+  logSinks: string[]; // datadog, console, audit, metrics
+  allowedOrigins: string[]; // CORS default for collections without their own
+}
+
 export interface ICosignRequest {
   collectionContract: string;
   minter: string;
   qty: number;
   chainId: number;
-  nonce: number;
+  nonce?: number; // read from getCosignNonce on-chain when omitted
   waiveMintFee?: boolean;
+  auth?: IMinterAuth; // required when the collection sets minterAuth
+}
+
+/**
+ * Message signed by the minter with `personal_sign`, and its signature.
+ */
+export interface IMinterAuth {
+  message: string;
+  signature: string;
+}
+
+export interface ICosignResponse {
+  sig: string;
+  timestamp: number; // unix timestamp in seconds
+  cosigner: string;
+  nonce: number;
+  signingMode: SigningMode;
+  windowId?: string; // the window the request was cosigned in
+  nextCosigner?: string;
+}
+
+/**
+ * A signature returned by `/cosign` together with the request it was issued
+ * for, as submitted to `/cosign/verify`.
+ */
+export interface ICosignVerifyRequest extends ICosignRequest {
+  sig: string;
+  timestamp: number; // unix timestamp in seconds returned with the signature
+  nonce: number;
+}
+
+export interface ICosignVerifyResult {
+  valid: boolean; // signature, cosigner and timestamp would all pass on-chain
+  signatureValid: boolean; // recovers to a keyring cosigner as submitted
+  recoveredSigner: string | null; // null when the signature recovers to no key
+  cosigner: string; // the address that signs for the collection now
+  matchesCurrentCosigner: boolean;
+  signingMode: SigningMode;
+  digest: string; // the hash the signature was checked against
+  timestampExpirySeconds: number;
+  expirySource: 'onchain' | 'default';
+  timestampExpired: boolean;
+  nonceCosigned: boolean; // the server cosigned this nonce for the minter
+  mismatchedFields: string[]; // fields that likely differ from what was signed
+}
+
+/**
+ * Item of a `/cosign/batch` response for a request that was not signed.
+ */
+export interface ICosignBatchError {
+  status: number;
+  error: string;
+  message: string;
+}
+
+export type CosignDecision = 'signed' | 'rejected' | 'error';
+
+export interface ICosignAuditEntry {
+  collection: string;
+  chainId: number;
+  minter: string;
+  qty: number;
+  nonce?: number;
+  waiveMintFee: boolean;
+  decision: CosignDecision;
+  reason?: string; // error code when not signed
+  cosigner?: string;
+  windowId?: string;
+  latencyMs: number;
+  timestamp: number; // unix timestamp in milliseconds
+}
+
+export interface ICollectionMetrics {
+  collection: string; // lowercased address
+  chainId: number;
+  signed: number;
+  rejected: number;
+  error: number;
+  updatedAt?: number; // unix timestamp in seconds of the last decision
+}
+
+export interface INonceRecord {
+  chainId: number;
+  nonce: number;
+  qty: number;
+  timestamp: number; // unix timestamp in seconds the nonce was signed at
+  expiresAt: number; // unix timestamp in seconds the signature expires at
+}
+
+export interface ICosignPolicy {
+  maxQtyPerRequest?: number;
+  maxQtyPerMinter?: number; // total qty cosigned for a minter across requests
+  allowlist?: string[]; // only these minters may be cosigned when set
+  denylist?: string[]; // these minters are never cosigned
+  allowWaiveMintFee?: boolean; // defaults to false
+}
+
+/**
+ * A phase of the drop, usually matching a contract stage. Caps apply on top
+ * of the collection policy.
+ */
+export interface ICosignWindow {
+  id: string;
+  startTimeUnixSeconds: number; // unix timestamp in seconds, inclusive
+  endTimeUnixSeconds: number; // unix timestamp in seconds, exclusive
+  maxQtyPerRequest?: number;
+  maxQtyPerMinter?: number; // total qty cosigned for a minter in the window
+  allowWaiveMintFee?: boolean; // overrides the policy during the window
+}
+
+export interface ITokenBucketConfig {
+  capacity: number; // maximum burst of requests
+  refillPerSecond: number; // tokens added back per second
+}
+
+export interface IRateLimitConfig {
+  minter?: ITokenBucketConfig;
+  ip?: ITokenBucketConfig;
+}
+
+export type SigningMode = 'packed' | 'eip712';
+
+export type MinterAuthType = 'siwe' | 'personal';
+
+export interface IMinterAuthConfig {
+  type: MinterAuthType; // an EIP-4361 message, or the server defined message
+  domain: string; // the dapp domain the message must be bound to
+  maxAgeSeconds?: number; // how old Issued At may be, defaults to 300
 }
 
 export interface ICollectionRequest {
   collectionContract: string;
+  chainId: number;
   startTimeUnixSeconds?: number; // unix timestamp in seconds
   endTimeUnixSeconds?: number; // unix timestamp in seconds
+  policy?: ICosignPolicy;
+  windows?: ICosignWindow[]; // when set, cosigning is only open in a window
+  rateLimit?: IRateLimitConfig; // falls back to DEFAULT_RATE_LIMIT per bucket
+  cosignerKeyId?: string; // keyring entry that signs, defaults to 'default'
+  previousCosignerKeyId?: string; // keeps signing until cosignerActivatesAt
+  cosignerActivatesAt?: number; // unix timestamp in seconds
+  eligibilityChecks?: boolean; // read the contract over RPC_URLS before signing
+  signingMode?: SigningMode; // defaults to 'packed', what Cosignable verifies
+  minterAuth?: IMinterAuthConfig; // require a signature from the minter
+  allowedOrigins?: string[]; // browser origins allowed to request cosigns
+}
+
+export interface IRotateCosignerRequest {
+  cosignerKeyId: string;
+  overlapSeconds?: number; // defaults to 0, switching keys immediately
+}
+
+/**
+ * Collection record stored under `collection:v2:${address}:${chainId}`.
+ */
+export interface ICollection extends ICollectionRequest {
+  schemaVersion: 2;
+  version: number; // incremented on every write, exposed as the ETag
+  createdAt: number; // unix timestamp in seconds
+  updatedAt: number; // unix timestamp in seconds
+}
+
+export type PolicyViolationCode =
+  | 'INVALID_QTY'
+  | 'QTY_EXCEEDS_REQUEST_LIMIT'
+  | 'QTY_EXCEEDS_MINTER_LIMIT'
+  | 'MINTER_NOT_ALLOWED'
+  | 'MINTER_DENIED'
+  | 'WAIVE_MINT_FEE_NOT_ALLOWED'
+  | 'QTY_EXCEEDS_WINDOW_REQUEST_LIMIT'
+  | 'QTY_EXCEEDS_WINDOW_MINTER_LIMIT';
+
+export interface IPolicyViolation {
+  status: number;
+  error: PolicyViolationCode;
+  message: string;
+}
+
+export type MinterAuthViolationCode =
+  | 'MINTER_AUTH_REQUIRED'
+  | 'INVALID_MINTER_AUTH'
+  | 'MINTER_AUTH_EXPIRED';
+
+export interface IMinterAuthViolation {
+  status: number;
+  error: MinterAuthViolationCode;
+  message: string;
+}
+
+export type EligibilityViolationCode =
+  | 'NOT_MINTABLE'
+  | 'COSIGNER_MISMATCH'
+  | 'NO_ACTIVE_STAGE'
+  | 'NO_SUPPLY_LEFT'
+  | 'STAGE_SUPPLY_EXCEEDED'
+  | 'WALLET_GLOBAL_LIMIT_EXCEEDED'
+  | 'WALLET_STAGE_LIMIT_EXCEEDED';
+
+export interface IEligibilityViolation {
+  status: number;
+  error: EligibilityViolationCode;
+  message: string;
+}
+
+export type ApiKeyRole = 'read-only' | 'collection-editor' | 'super-admin';
+
+export interface IApiKeyRequest {
+  name: string;
+  role: ApiKeyRole;
+  collections?: string[]; // addresses a collection-editor may manage
+}
+
+/**
+ * API key record stored under `apikey:v1:${sha256(key)}`. The key itself is
+ * only returned once, when it is created.
+ */
+export interface IApiKey extends IApiKeyRequest {
+  id: string;
+  createdAt: number; // unix timestamp in seconds
+}
+
+/**
+ * Collection configuration moved between workers by `GET /admin/export` and
+ * `POST /admin/import`. Records carry no KV versioning fields, the target
+ * worker assigns its own.
+ */
+export interface ICollectionBundle {
+  version: 1;
+  exportedAt: number; // unix timestamp in seconds
+  collections: ICollectionRequest[];
+}
+
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'fail';
+
+/**
+ * What an import does with one bundle entry. `conflict` is only used with the
+ * `fail` strategy, and stops the whole import.
+ */
+export type ImportAction =
+  | 'create'
+  | 'overwrite'
+  | 'skip'
+  | 'unchanged'
+  | 'conflict';
+
+export interface IFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IImportItem {
+  collectionContract: string;
+  chainId: number;
+  action: ImportAction;
+  changes?: IFieldChange[]; // set when the collection already exists
+}
+
+export interface IImportResult {
+  dryRun: boolean;
+  applied: boolean;
+  conflict: ImportConflictStrategy;
+  items: IImportItem[];
 }
@@ -0,0 +1,244 @@
+import { splitSignature } from '@ethersproject/bytes';
+import { recoverAddress } from '@ethersproject/transactions';
+import {
+  getCollection,
+  getCollectionChainIds,
+  toChainId,
+  toChecksumAddress,
+} from './collections';
+import { ICosignContext } from './cosign';
+import { resolveTimestampExpiry } from './eligibility';
+import { IKeyring, resolveCosignerKeyId } from './keyring';
+import { getNonceRecord, isValidNonce } from './nonces';
+import { getCosignSigningHash, ICosignParams, SIGNING_MODES } from './signing';
+import {
+  ICosignVerifyRequest,
+  ICosignVerifyResult,
+  SigningMode,
+} from './types';
+
+// upper bound of the qty values tried when looking for a mismatch
+const MAX_QTY_GUESS = 20;
+
+const httpError = (status: number, message: string) =>
+  Object.assign(new Error(message), { status });
+
+interface ICandidate {
+  field?: string;
+  mode: SigningMode;
+  params: ICosignParams;
+}
+
+/**
+ * Recovers the signer of `digest`, or null when the signature is well formed
+ * but does not recover to any point on the curve.
+ */
+const tryRecoverAddress = (digest: string, sig: string): string | null => {
+  try {
+    return recoverAddress(digest, sig);
+  } catch {
+    return null;
+  }
+};
+
+const recoversTo = (sig: string, { mode, params }: ICandidate) =>
+  tryRecoverAddress(getCosignSigningHash(mode, params), sig) ===
+  params.cosigner;
+
+/**
+ * Addresses of every keyring cosigner, starting with the preferred ones.
+ * Signers that cannot be reached are left out.
+ */
+const getCosignerAddresses = async (
+  keyring: IKeyring,
+  preferredKeyIds: string[],
+): Promise<string[]> => {
+  const keyIds = [...new Set([...preferredKeyIds, ...keyring.getKeyIds()])];
+  const addresses = await Promise.all(
+    keyIds.map((keyId) =>
+      keyring
+        .getCosigner(keyId)
+        .getAddress()
+        .catch(() => undefined),
+    ),
+  );
+  return [...new Set(addresses.filter((a): a is string => a !== undefined))];
+};
+
+/**
+ * Validates the fields `/cosign/verify` needs to rebuild a digest. Throws with
+ * a 400 status when one is malformed.
+ */
+const validateVerifyRequest = (
+  payload: ICosignVerifyRequest,
+): ICosignVerifyRequest => {
+  try {
+    splitSignature(payload.sig);
+  } catch {
+    throw httpError(400, 'sig must be a 65 byte hex signature');
+  }
+  if (!Number.isInteger(payload.timestamp) || payload.timestamp < 0) {
+    throw httpError(400, 'timestamp must be a unix timestamp in seconds');
+  }
+  if (!isValidNonce(payload.nonce)) {
+    throw httpError(400, 'nonce must be a non-negative safe integer');
+  }
+  if (!Number.isInteger(payload.qty) || payload.qty <= 0) {
+    throw httpError(400, 'qty must be a positive integer');
+  }
+  return {
+    ...payload,
+    collectionContract: toChecksumAddress(payload.collectionContract),
+    minter: toChecksumAddress(payload.minter),
+    chainId: toChainId(payload.chainId),
+  };
+};
+
+/**
+ * Checks a cosign signature the way the collection contract would, and when
+ * it does not match, looks for the fields that most likely differ from what
+ * was signed. The cosigner address is part of the digest, so the signature is
+ * tried against every keyring cosigner, then against variations of the
+ * payload that each change a single field.
+ */
+export const verifyCosign = async (
+  { kv, keyring, rpcUrls }: Pick<ICosignContext, 'kv' | 'keyring' | 'rpcUrls'>,
+  request: ICosignVerifyRequest,
+  now: number,
+): Promise<ICosignVerifyResult> => {
+  const payload = validateVerifyRequest(request);
+  const { sig, timestamp } = payload;
+  const collection = await getCollection(
+    kv,
+    payload.collectionContract,
+    payload.chainId,
+  );
+  if (!collection) {
+    throw httpError(404, 'Collection not found');
+  }
+
+  const signingMode = collection.signingMode ?? 'packed';
+  const currentKeyId = resolveCosignerKeyId(collection, now);
+  const signingKeyId = resolveCosignerKeyId(collection, timestamp);
+  const [cosigner, expectedCosigner] = await Promise.all([
+    keyring.getCosigner(currentKeyId).getAddress(),
+    keyring.getCosigner(signingKeyId).getAddress(),
+  ]);
+
+  const submitted: ICandidate = {
+    mode: signingMode,
+    params: {
+      collectionContract: collection.collectionContract,
+      chainId: collection.chainId,
+      minter: payload.minter,
+      qty: payload.qty,
+      waiveMintFee: payload.waiveMintFee ?? false,
+      cosigner: expectedCosigner,
+      timestamp,
+      nonce: payload.nonce,
+    },
+  };
+  const mismatchedFields = new Set<string>();
+  const cosigners = await getCosignerAddresses(keyring, [
+    signingKeyId,
+    currentKeyId,
+  ]);
+  const signedBy = cosigners.find((address) =>
+    recoversTo(sig, {
+      ...submitted,
+      params: { ...submitted.params, cosigner: address },
+    }),
+  );
+  if (signedBy && signedBy !== cosigner) {
+    mismatchedFields.add('cosigner');
+  }
+  const digest = getCosignSigningHash(signingMode, {
+    ...submitted.params,
+    cosigner: signedBy ?? expectedCosigner,
+  });
+
+  const nonceRecord = await getNonceRecord(
+    kv,
+    collection.collectionContract,
+    collection.chainId,
+    payload.minter,
+    payload.nonce,
+  );
+  if (nonceRecord && nonceRecord.qty !== payload.qty) {
+    mismatchedFields.add('qty');
+  }
+  if (nonceRecord && nonceRecord.timestamp !== timestamp) {
+    mismatchedFields.add('timestamp');
+  }
+
+  if (!signedBy) {
+    const vary = (
+      field: string,
+      change: Partial<ICosignParams>,
+      overrides: Partial<Omit<ICandidate, 'params'>> = {},
+    ): ICandidate[] =>
+      [expectedCosigner, cosigner].map((address) => ({
+        ...submitted,
+        ...overrides,
+        field,
+        params: { ...submitted.params, cosigner: address, ...change },
+      }));
+
+    const chainIds = await getCollectionChainIds(
+      kv,
+      collection.collectionContract,
+    );
+    const maxQty = Math.min(
+      collection.policy?.maxQtyPerRequest ?? MAX_QTY_GUESS,
+      MAX_QTY_GUESS,
+    );
+    const candidates: ICandidate[] = [
+      ...vary('waiveMintFee', { waiveMintFee: !submitted.params.waiveMintFee }),
+      ...SIGNING_MODES.filter((mode) => mode !== signingMode).flatMap((mode) =>
+        vary('signingMode', {}, { mode }),
+      ),
+      ...chainIds
+        .filter((chainId) => chainId !== collection.chainId)
+        .flatMap((chainId) => vary('chainId', { chainId })),
+      ...Array.from({ length: maxQty }, (_, i) => i + 1)
+        .filter((qty) => qty !== payload.qty)
+        .flatMap((qty) => vary('qty', { qty })),
+      ...(nonceRecord && nonceRecord.timestamp !== timestamp
+        ? vary('timestamp', { timestamp: nonceRecord.timestamp })
+        : []),
+    ];
+    for (const candidate of candidates) {
+      if (candidate.field && recoversTo(sig, candidate)) {
+        mismatchedFields.add(candidate.field);
+      }
+    }
+    // no cosign on record and no single field explains the signature
+    if (mismatchedFields.size === 0 && !nonceRecord) {
+      mismatchedFields.add('minter');
+      mismatchedFields.add('nonce');
+    }
+  }
+
+  const { timestampExpirySeconds, expirySource } = await resolveTimestampExpiry(
+    rpcUrls[String(collection.chainId)],
+    collection.collectionContract,
+  );
+  // mirrors Cosignable._assertValidTimestamp
+  const timestampExpired = timestamp < now - timestampExpirySeconds;
+
+  const matchesCurrentCosigner = signedBy === cosigner;
+  return {
+    valid: matchesCurrentCosigner && !timestampExpired,
+    signatureValid: signedBy !== undefined,
+    recoveredSigner: tryRecoverAddress(digest, sig),
+    cosigner,
+    matchesCurrentCosigner,
+    signingMode,
+    digest,
+    timestampExpirySeconds,
+    expirySource,
+    timestampExpired,
+    nonceCosigned: nonceRecord !== null,
+    mismatchedFields: [...mismatchedFields],
+  };
+};
@@ -0,0 +1,102 @@
+import { ICosignRequest, ICosignWindow, IPolicyViolation } from './types';
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Validates the cosign windows submitted by an admin and returns them sorted
+ * by start time. Throws with a 400 status when a window is malformed or
+ * overlaps another.
+ */
+export const normalizeWindows = (windows: ICosignWindow[]): ICosignWindow[] => {
+  const invalid = (message: string) =>
+    Object.assign(new Error(`Invalid windows: ${message}`), { status: 400 });
+
+  if (!Array.isArray(windows)) throw invalid('windows must be an array');
+  const ids = new Set<string>();
+  for (const window of windows) {
+    if (typeof window.id !== 'string' || window.id.length === 0) {
+      throw invalid('every window needs an id');
+    }
+    if (ids.has(window.id)) throw invalid(`duplicate id ${window.id}`);
+    ids.add(window.id);
+
+    if (
+      !isTimestamp(window.startTimeUnixSeconds) ||
+      !isTimestamp(window.endTimeUnixSeconds) ||
+      window.startTimeUnixSeconds >= window.endTimeUnixSeconds
+    ) {
+      throw invalid(
+        `${window.id} needs startTimeUnixSeconds before endTimeUnixSeconds`,
+      );
+    }
+    for (const field of ['maxQtyPerRequest', 'maxQtyPerMinter'] as const) {
+      if (window[field] !== undefined && !isPositiveInteger(window[field])) {
+        throw invalid(`${window.id} ${field} must be a positive integer`);
+      }
+    }
+    if (
+      window.allowWaiveMintFee !== undefined &&
+      typeof window.allowWaiveMintFee !== 'boolean'
+    ) {
+      throw invalid(`${window.id} allowWaiveMintFee must be a boolean`);
+    }
+  }
+
+  const sorted = [...windows].sort(
+    (a, b) => a.startTimeUnixSeconds - b.startTimeUnixSeconds,
+  );
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].startTimeUnixSeconds < sorted[i - 1].endTimeUnixSeconds) {
+      throw invalid(`${sorted[i].id} overlaps ${sorted[i - 1].id}`);
+    }
+  }
+  return sorted;
+};
+
+/**
+ * Returns the window open at `timestamp`. Like the contract stages, a window
+ * includes its start and excludes its end.
+ */
+export const findActiveWindow = (
+  windows: ICosignWindow[],
+  timestamp: number,
+): ICosignWindow | undefined =>
+  windows.find(
+    (window) =>
+      timestamp >= window.startTimeUnixSeconds &&
+      timestamp < window.endTimeUnixSeconds,
+  );
+
+/**
+ * Checks a cosign request against the caps of the active window.
+ * `cosignedQty` is the quantity already cosigned for the minter in this
+ * window.
+ */
+export const evaluateWindow = (
+  window: ICosignWindow,
+  payload: ICosignRequest,
+  cosignedQty: number,
+): IPolicyViolation | undefined => {
+  if (window.maxQtyPerRequest && payload.qty > window.maxQtyPerRequest) {
+    return {
+      status: 403,
+      error: 'QTY_EXCEEDS_WINDOW_REQUEST_LIMIT',
+      message: `qty exceeds the per request limit of ${window.maxQtyPerRequest} in window ${window.id}`,
+    };
+  }
+  if (
+    window.maxQtyPerMinter &&
+    cosignedQty + payload.qty > window.maxQtyPerMinter
+  ) {
+    return {
+      status: 403,
+      error: 'QTY_EXCEEDS_WINDOW_MINTER_LIMIT',
+      message: `qty exceeds the per minter limit of ${window.maxQtyPerMinter} in window ${window.id} (${cosignedQty} already cosigned)`,
+    };
+  }
+  return undefined;
+};
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import {
+  buildSafeTransaction,
+  encodeMultiSendData,
+  getSafeTxHash,
+} from '../../cli-typescript/src/utils/signers/safe';
+import { SAFE_MULTI_SEND_CALL_ONLY_ADDRESS } from '../../cli-typescript/src/utils/constants';
+
+const CHAIN_ID = 8453;
+const SAFE = '0x1111111111111111111111111111111111111111';
+const NONCE = BigInt(7);
+
+const CALLS: Parameters<typeof encodeMultiSendData>[0] = [
+  {
+    to: '0x2222222222222222222222222222222222222222',
+    data: '0xabcdef',
+    value: BigInt(5),
+  },
+  {
+    to: '0x3333333333333333333333333333333333333333',
+    data: '0x',
+    value: BigInt(0),
+  },
+];
+
+// operation (1 byte), to (20), value (32), data length (32) and data per call
+const MULTI_SEND_DATA =
+  '0x' +
+  '00' +
+  '2222222222222222222222222222222222222222' +
+  '0000000000000000000000000000000000000000000000000000000000000005' +
+  '0000000000000000000000000000000000000000000000000000000000000003' +
+  'abcdef' +
+  '00' +
+  '3333333333333333333333333333333333333333' +
+  '0000000000000000000000000000000000000000000000000000000000000000' +
+  '0000000000000000000000000000000000000000000000000000000000000000';
+
+// computed independently with the ethers EIP-712 encoder
+const BATCH_SAFE_TX_HASH =
+  '0x10e32568a69fa65fac8f8eb9c392af22a065f4df04748f0a430a0867a045a2d4';
+const SINGLE_SAFE_TX_HASH =
+  '0x9ecb05af275338a8d4483d1af802d2a149aa6cb24d8099dce123890d66a89398';
+
+describe('Safe signer', function () {
+  it('packs MultiSend calls back to back', () => {
+    expect(encodeMultiSendData(CALLS)).to.equal(MULTI_SEND_DATA);
+  });
+
+  it('batches several calls through a delegate call to MultiSendCallOnly', () => {
+    const safeTx = buildSafeTransaction(CALLS, NONCE);
+
+    expect(safeTx.to).to.equal(SAFE_MULTI_SEND_CALL_ONLY_ADDRESS);
+    expect(safeTx.operation).to.equal(1);
+    expect(safeTx.value).to.equal(BigInt(0));
+    // multiSend(bytes) selector, offset, length, then the packed calls
+    expect(safeTx.data.slice(0, 10)).to.equal('0x8d80ff0a');
+    expect(safeTx.data).to.contain(MULTI_SEND_DATA.slice(2));
+    expect(getSafeTxHash(CHAIN_ID, SAFE, safeTx)).to.equal(BATCH_SAFE_TX_HASH);
+  });
+
+  it('sends a single call directly', () => {
+    const safeTx = buildSafeTransaction([CALLS[0]], NONCE);
+
+    expect(safeTx.to).to.equal(CALLS[0].to);
+    expect(safeTx.operation).to.equal(0);
+    expect(safeTx.data).to.equal('0xabcdef');
+    expect(getSafeTxHash(CHAIN_ID, SAFE, safeTx)).to.equal(SINGLE_SAFE_TX_HASH);
+  });
+
+  it('rejects an empty batch', () => {
+    expect(() => buildSafeTransaction([], NONCE)).to.throw(
+      'A Safe transaction needs at least one call.',
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createNodeServer } from '../../cosign-server/src/node';
+
+const ADMIN_KEY = 'test-admin-key';
+const COLLECTION = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const OTHER_COLLECTION = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+describe('Cosign server API keys', function () {
+  let server: Server;
+  let baseUrl: string;
+
+  const request = (method: string, path: string, key: string, body?: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'x-admin-key': key },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const createKey = async (body: unknown) => {
+    const res = await request('POST', '/admin/keys', ADMIN_KEY, body);
+    expect(res.status).to.equal(201);
+    return res.json();
+  };
+
+  beforeEach(async () => {
+    server = createNodeServer({
+      adminKey: ADMIN_KEY,
+      signers: {},
+      rpcUrls: {},
+      logSinks: [],
+      allowedOrigins: ['*'],
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('never stores or lists the key itself', async () => {
+    const { key, id } = await createKey({ name: 'ops', role: 'read-only' });
+    expect(key).to.match(/^mdk_[0-9a-f]{64}$/);
+
+    const res = await request('GET', '/admin/keys', ADMIN_KEY);
+    const { keys } = await res.json();
+    expect(keys).to.have.length(1);
+    expect(keys[0].id).to.equal(id);
+    expect(keys[0]).to.not.have.property('key');
+  });
+
+  it('limits read-only keys to reads', async () => {
+    const { key } = await createKey({ name: 'ops', role: 'read-only' });
+
+    expect((await request('GET', '/collections', key)).status).to.equal(200);
+    const res = await request('POST', '/collections', key, {
+      collectionContract: COLLECTION,
+      chainId: 1,
+    });
+    expect(res.status).to.equal(403);
+  });
+
+  it('scopes collection-editor keys to their collections', async () => {
+    const { key } = await createKey({
+      name: 'partner',
+      role: 'collection-editor',
+      collections: [COLLECTION],
+    });
+
+    const allowed = await request('POST', '/collections', key, {
+      collectionContract: COLLECTION,
+      chainId: 1,
+    });
+    expect(allowed.status).to.equal(201);
+    const denied = await request('POST', '/collections', key, {
+      collectionContract: OTHER_COLLECTION,
+      chainId: 1,
+    });
+    expect(denied.status).to.equal(403);
+    expect((await request('GET', '/admin/keys', key)).status).to.equal(403);
+  });
+
+  it('rejects revoked keys', async () => {
+    const { key, id } = await createKey({ name: 'ops', role: 'super-admin' });
+    expect((await request('GET', '/admin/keys', key)).status).to.equal(200);
+
+    const res = await request('DELETE', `/admin/keys/${id}`, ADMIN_KEY);
+    expect(res.status).to.equal(204);
+    expect((await request('GET', '/admin/keys', key)).status).to.equal(401);
+  });
+});
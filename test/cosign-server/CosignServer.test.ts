@@ -0,0 +1,1000 @@
+import chai, { expect } from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import { Contract, Wallet } from 'ethers';
+import { ethers, network } from 'hardhat';
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import { MockCosignable, MockEIP712Cosignable } from '../../typechain-types';
+import { createMemoryKV } from '../../cosign-server/src/memoryKV';
+import { createNodeServer } from '../../cosign-server/src/node';
+import { createMockRemoteSigner } from '../../cosign-server/src/mockRemoteSigner';
+import { createRemoteSigner } from '../../cosign-server/src/remoteSigner';
+import { signCosign } from '../../cosign-server/src/signing';
+import {
+  ICosignServerConfig,
+  IKeyValueStore,
+} from '../../cosign-server/src/types';
+
+chai.use(chaiAsPromised);
+
+const ADMIN_KEY = 'test-admin-key';
+
+const listen = async (server: Server) => {
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+/**
+ * Serves the Hardhat network over HTTP, for the checks that read the
+ * collection contract through an RPC URL.
+ */
+const createHardhatRpcServer = () =>
+  createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const { id, method, params } = JSON.parse(Buffer.concat(chunks).toString());
+    let body;
+    try {
+      const result = await network.provider.request({ method, params });
+      body = { jsonrpc: '2.0', id, result };
+    } catch (e: any) {
+      body = {
+        jsonrpc: '2.0',
+        id,
+        error: { code: -32000, message: e.message, data: e.data },
+      };
+    }
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  });
+
+describe('Cosign server', function () {
+  let cosignable: MockCosignable;
+  let cosigner: Wallet;
+  let minter: string;
+  let server: Server;
+  let baseUrl: string;
+  let nextNonce = 0;
+
+  const post = (path: string, body: unknown, headers = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const startServer = async (
+    config: Partial<ICosignServerConfig> = {},
+    kv?: IKeyValueStore,
+  ) => {
+    server = createNodeServer(
+      {
+        adminKey: ADMIN_KEY,
+        signers: {
+          default: { type: 'local', privateKey: cosigner.privateKey },
+        },
+        rpcUrls: {},
+        logSinks: ['audit', 'metrics'],
+        allowedOrigins: ['*'],
+        ...config,
+      },
+      kv,
+    );
+    baseUrl = await listen(server);
+  };
+
+  // replaces the server of beforeEach, the new one is closed in afterEach
+  const restartServer = async (
+    config: Partial<ICosignServerConfig> = {},
+    kv?: IKeyValueStore,
+  ) => {
+    await new Promise((resolve) => server.close(resolve));
+    await startServer(config, kv);
+  };
+
+  const patchCollection = (body: unknown, headers = {}) =>
+    fetch(`${baseUrl}/collections/${cosignable.address}/31337`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-admin-key': ADMIN_KEY,
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+  const cosign = (body: Record<string, unknown> = {}, headers = {}) =>
+    post(
+      '/cosign',
+      {
+        collectionContract: cosignable.address,
+        chainId: 31337,
+        minter,
+        qty: 1,
+        nonce: nextNonce++,
+        ...body,
+      },
+      headers,
+    );
+
+  beforeEach(async () => {
+    cosigner = Wallet.createRandom();
+    [, { address: minter }] = await ethers.getSigners();
+
+    const factory = await ethers.getContractFactory('MockCosignable');
+    cosignable = await factory.deploy(cosigner.address);
+    await cosignable.deployed();
+
+    await startServer();
+
+    const res = await post(
+      '/collections',
+      {
+        collectionContract: cosignable.address,
+        chainId: 31337,
+        policy: { allowWaiveMintFee: true, maxQtyPerRequest: 5 },
+      },
+      { 'x-admin-key': ADMIN_KEY },
+    );
+    expect(res.status).to.equal(201);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('rejects admin routes without the admin key', async () => {
+    const res = await post('/collections', {
+      collectionContract: cosignable.address,
+      chainId: 1,
+    });
+    expect(res.status).to.equal(401);
+  });
+
+  it('only updates collections that match If-Match', async () => {
+    const res = await fetch(
+      `${baseUrl}/collections/${cosignable.address}/31337`,
+      { headers: { 'x-admin-key': ADMIN_KEY } },
+    );
+    expect(res.headers.get('ETag')).to.equal('"1"');
+
+    const updated = await patchCollection(
+      { policy: { maxQtyPerRequest: 2 } },
+      { 'If-Match': '"1"' },
+    );
+    expect(updated.status).to.equal(200);
+    expect(updated.headers.get('ETag')).to.equal('"2"');
+    const collection = await updated.json();
+    expect(collection.policy.maxQtyPerRequest).to.equal(2);
+    // fields that are not in the patch are kept
+    expect(collection.createdAt).to.be.a('number');
+
+    const stale = await patchCollection(
+      { policy: { maxQtyPerRequest: 4 } },
+      { 'If-Match': '"1"' },
+    );
+    expect(stale.status).to.equal(412);
+    const deleted = await fetch(
+      `${baseUrl}/collections/${cosignable.address}/31337`,
+      {
+        method: 'DELETE',
+        headers: { 'x-admin-key': ADMIN_KEY, 'If-Match': '"1"' },
+      },
+    );
+    expect(deleted.status).to.equal(412);
+    expect((await cosign({ qty: 3 })).status).to.equal(403);
+
+    const cleared = await patchCollection({ policy: null });
+    expect(cleared.headers.get('ETag')).to.equal('"3"');
+    expect((await cleared.json()).policy).to.equal(undefined);
+  });
+
+  it('rejects patches that are not collection fields', async () => {
+    for (const body of ['str', [1], null]) {
+      expect((await patchCollection(body)).status).to.equal(400);
+    }
+    const unknown = await patchCollection({ notAField: 1 });
+    expect(unknown.status).to.equal(400);
+    expect(await unknown.text()).to.contain('notAField');
+    expect(
+      (await patchCollection({ chainId: 1, policy: { maxQtyPerRequest: 2 } }))
+        .status,
+    ).to.equal(400);
+
+    // the merged record goes through the same checks as a new collection
+    const invalid = await patchCollection({ startTimeUnixSeconds: -1 });
+    expect(invalid.status).to.equal(400);
+
+    const res = await fetch(
+      `${baseUrl}/collections/${cosignable.address}/31337`,
+      { headers: { 'x-admin-key': ADMIN_KEY } },
+    );
+    expect(res.headers.get('ETag')).to.equal('"1"');
+    expect(await res.json()).to.not.have.property('0');
+  });
+
+  it('pages through collections with a cursor', async () => {
+    for (let i = 0; i < 2; i++) {
+      await post(
+        '/collections',
+        { collectionContract: Wallet.createRandom().address, chainId: 31337 },
+        { 'x-admin-key': ADMIN_KEY },
+      );
+    }
+    const list = async (query: string) =>
+      (
+        await fetch(`${baseUrl}/collections?${query}`, {
+          headers: { 'x-admin-key': ADMIN_KEY },
+        })
+      ).json();
+
+    const first = await list('limit=2');
+    expect(first.collections).to.have.length(2);
+    expect(first.cursor).to.be.a('string');
+    const second = await list(`limit=2&cursor=${first.cursor}`);
+    expect(second.collections).to.have.length(1);
+    expect(second.cursor).to.equal(undefined);
+
+    const addresses = [...first.collections, ...second.collections].map(
+      (collection) => collection.collectionContract,
+    );
+    expect(new Set(addresses).size).to.equal(3);
+    expect(addresses).to.include(cosignable.address);
+  });
+
+  it('returns a signature the contract accepts', async () => {
+    const res = await cosign({ qty: 2 });
+    expect(res.status).to.equal(200);
+    const { sig, timestamp, cosigner: address, nonce } = await res.json();
+    expect(address).to.equal(cosigner.address);
+
+    expect(
+      await cosignable.assertValidCosign(minter, 2, timestamp, sig, nonce),
+    ).to.equal(false);
+    await expect(
+      cosignable.assertValidCosign(minter, 3, timestamp, sig, nonce),
+    ).to.be.rejectedWith('InvalidCosignSignature');
+  });
+
+  it('signs through a remote signer', async () => {
+    const remote = createRemoteSigner(
+      { type: 'remote', url: 'https://signer.test', authToken: 'token' },
+      createMockRemoteSigner(cosigner.privateKey, 'token'),
+    );
+    expect(await remote.getAddress()).to.equal(cosigner.address);
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const sig = await signCosign(remote, 'packed', {
+      collectionContract: cosignable.address,
+      chainId: 31337,
+      minter,
+      qty: 1,
+      waiveMintFee: false,
+      cosigner: cosigner.address,
+      timestamp,
+      nonce: 7,
+    });
+    expect(
+      await cosignable.assertValidCosign(minter, 1, timestamp, sig, 7),
+    ).to.equal(false);
+
+    const unauthorized = createRemoteSigner(
+      { type: 'remote', url: 'https://signer.test' },
+      createMockRemoteSigner(cosigner.privateKey, 'token'),
+    );
+    await expect(unauthorized.getAddress()).to.be.rejectedWith('401');
+  });
+
+  it('explains signatures that do not verify', async () => {
+    const { sig, timestamp, nonce } = await (await cosign({ qty: 2 })).json();
+    const verify = async (body: Record<string, unknown>) =>
+      (
+        await post('/cosign/verify', {
+          collectionContract: cosignable.address,
+          chainId: 31337,
+          minter,
+          qty: 2,
+          sig,
+          timestamp,
+          nonce,
+          ...body,
+        })
+      ).json();
+
+    const valid = await verify({});
+    expect(valid).to.include({ valid: true, timestampExpired: false });
+    expect(valid.recoveredSigner).to.equal(cosigner.address);
+
+    const wrongQty = await verify({ qty: 3 });
+    expect(wrongQty.valid).to.equal(false);
+    expect(wrongQty.mismatchedFields).to.deep.equal(['qty']);
+
+    const wrongFee = await verify({ waiveMintFee: true });
+    expect(wrongFee.mismatchedFields).to.deep.equal(['waiveMintFee']);
+
+    const expired = await verify({ timestamp: timestamp - 3600 });
+    expect(expired.timestampExpired).to.equal(true);
+    expect(expired.mismatchedFields).to.include('timestamp');
+
+    // well formed, but recovers to no key
+    const res = await post('/cosign/verify', {
+      collectionContract: cosignable.address,
+      chainId: 31337,
+      minter,
+      qty: 2,
+      sig: `0x${'00'.repeat(65)}`,
+      timestamp,
+      nonce,
+    });
+    expect(res.status).to.equal(200);
+    expect(await res.json()).to.include({
+      valid: false,
+      signatureValid: false,
+      recoveredSigner: null,
+    });
+  });
+
+  it('returns EIP-712 signatures a contract accepts', async () => {
+    const factory = await ethers.getContractFactory('MockEIP712Cosignable');
+    const eip712Cosignable: MockEIP712Cosignable = await factory.deploy(
+      cosigner.address,
+    );
+    await eip712Cosignable.deployed();
+    await post(
+      '/collections',
+      {
+        collectionContract: eip712Cosignable.address,
+        chainId: 31337,
+        signingMode: 'eip712',
+        policy: { allowWaiveMintFee: true },
+      },
+      { 'x-admin-key': ADMIN_KEY },
+    );
+
+    const res = await cosign({
+      collectionContract: eip712Cosignable.address,
+      qty: 2,
+      waiveMintFee: true,
+    });
+    expect(res.status).to.equal(200);
+    const { sig, timestamp, nonce, signingMode } = await res.json();
+    expect(signingMode).to.equal('eip712');
+
+    expect(
+      await eip712Cosignable.assertValidCosign(
+        minter,
+        2,
+        timestamp,
+        sig,
+        nonce,
+      ),
+    ).to.equal(true);
+    await expect(
+      eip712Cosignable.assertValidCosign(minter, 3, timestamp, sig, nonce),
+    ).to.be.rejectedWith('InvalidCosignSignature');
+  });
+
+  it('signs waiveMintFee when the policy allows it', async () => {
+    const res = await cosign({ waiveMintFee: true });
+    expect(res.status).to.equal(200);
+    const { sig, timestamp, nonce } = await res.json();
+
+    expect(
+      await cosignable.assertValidCosign(minter, 1, timestamp, sig, nonce),
+    ).to.equal(true);
+  });
+
+  it('rejects a nonce that was already cosigned', async () => {
+    expect((await cosign({ nonce: 7 })).status).to.equal(200);
+
+    const res = await cosign({ nonce: 7 });
+    expect(res.status).to.equal(409);
+    expect((await res.json()).error).to.equal('NONCE_ALREADY_USED');
+  });
+
+  it('requires a nonce when no RPC URL is configured', async () => {
+    const res = await cosign({ nonce: undefined });
+    expect(res.status).to.equal(400);
+    expect((await res.json()).error).to.equal('NONCE_REQUIRED');
+  });
+
+  it('rejects requests that break the collection policy', async () => {
+    const res = await cosign({ qty: 6 });
+    expect(res.status).to.equal(403);
+    expect((await res.json()).error).to.equal('QTY_EXCEEDS_REQUEST_LIMIT');
+  });
+
+  it('rejects a minter that is not an address', async () => {
+    for (const invalid of ['0x1234', 42, undefined]) {
+      const res = await cosign({ minter: invalid });
+      expect(res.status).to.equal(400);
+      expect((await res.json()).error).to.equal('INVALID_MINTER');
+    }
+  });
+
+  it('rejects a collection that is not an address', async () => {
+    for (const invalid of ['0x1234', 42, undefined]) {
+      const res = await cosign({ collectionContract: invalid });
+      expect(res.status).to.equal(400);
+      expect((await res.json()).error).to.equal('INVALID_COLLECTION');
+    }
+  });
+
+  it('rejects a chain ID that is not a positive integer', async () => {
+    for (const invalid of ['31337', 0, 1.5, undefined]) {
+      const res = await cosign({ chainId: invalid });
+      expect(res.status).to.equal(400);
+      expect((await res.json()).error).to.equal('INVALID_CHAIN_ID');
+    }
+  });
+
+  it('rate limits each minter once its requests are valid', async () => {
+    const res = await patchCollection({
+      rateLimit: { minter: { capacity: 2, refillPerSecond: 0.1 } },
+    });
+    expect(res.status).to.equal(200);
+
+    // rejected requests do not take tokens from the minter bucket
+    for (let i = 0; i < 3; i++) {
+      expect((await cosign({ qty: 6 })).status).to.equal(403);
+    }
+    expect((await cosign()).status).to.equal(200);
+    expect((await cosign()).status).to.equal(200);
+
+    const limited = await cosign();
+    expect(limited.status).to.equal(429);
+    expect((await limited.json()).error).to.equal('RATE_LIMITED');
+    const retryAfter = Number(limited.headers.get('Retry-After'));
+    expect(retryAfter).to.be.greaterThan(0);
+    expect(retryAfter).to.be.at.most(10);
+  });
+
+  it('rate limits each client IP before any other check', async () => {
+    await patchCollection({
+      rateLimit: { ip: { capacity: 1, refillPerSecond: 0.1 } },
+    });
+
+    expect((await cosign({ qty: 6 })).status).to.equal(403);
+    const limited = await cosign();
+    expect(limited.status).to.equal(429);
+    expect(limited.headers.get('Retry-After')).to.not.equal(null);
+  });
+
+  it('cosigns a batch with one timestamp', async () => {
+    const item = {
+      collectionContract: cosignable.address,
+      chainId: 31337,
+      minter,
+      qty: 2,
+    };
+    const res = await post('/cosign/batch', [
+      { ...item, nonce: 1 },
+      { ...item, nonce: 2 },
+      { ...item, nonce: 1 },
+    ]);
+    expect(res.status).to.equal(200);
+    const [first, second, replayed] = await res.json();
+
+    expect(second.timestamp).to.equal(first.timestamp);
+    for (const { sig, timestamp, nonce } of [first, second]) {
+      expect(
+        await cosignable.assertValidCosign(minter, 2, timestamp, sig, nonce),
+      ).to.equal(false);
+    }
+    expect(replayed.status).to.equal(409);
+    expect(replayed.error).to.equal('NONCE_ALREADY_USED');
+  });
+
+  it('takes one rate limit token per batch item', async () => {
+    await patchCollection({
+      rateLimit: { minter: { capacity: 2, refillPerSecond: 0.1 } },
+    });
+    const item = {
+      collectionContract: cosignable.address,
+      chainId: 31337,
+      minter,
+      qty: 1,
+    };
+    const res = await post('/cosign/batch', [
+      { ...item, nonce: 1 },
+      { ...item, nonce: 2 },
+      { ...item, nonce: 3 },
+    ]);
+    const [first, second, third] = await res.json();
+    expect(first.sig).to.be.a('string');
+    expect(second.sig).to.be.a('string');
+    expect(third.status).to.equal(429);
+    expect(third.error).to.equal('RATE_LIMITED');
+
+    expect((await cosign()).status).to.equal(429);
+  });
+
+  it('takes one client IP token per batch item', async () => {
+    await patchCollection({
+      rateLimit: { ip: { capacity: 2, refillPerSecond: 0.1 } },
+    });
+    const res = await post(
+      '/cosign/batch',
+      [0, 1, 2].map((i) => ({
+        collectionContract: cosignable.address,
+        chainId: 31337,
+        minter: Wallet.createRandom().address,
+        qty: 1,
+        nonce: i,
+      })),
+    );
+    const results = await res.json();
+    expect(results[0].sig).to.be.a('string');
+    expect(results[1].sig).to.be.a('string');
+    expect(results[2].error).to.equal('RATE_LIMITED');
+  });
+
+  it('only cosigns for the origins a collection allows', async () => {
+    const res = await fetch(
+      `${baseUrl}/collections/${cosignable.address}/31337`,
+      {
+        method: 'PATCH',
+        headers: { 'x-admin-key': ADMIN_KEY },
+        body: JSON.stringify({ allowedOrigins: ['https://mint.example.com'] }),
+      },
+    );
+    expect(res.status).to.equal(200);
+
+    const allowed = await cosign({}, { Origin: 'https://mint.example.com' });
+    expect(allowed.status).to.equal(200);
+    expect(allowed.headers.get('access-control-allow-origin')).to.equal(
+      'https://mint.example.com',
+    );
+
+    const denied = await cosign({}, { Origin: 'https://evil.example.com' });
+    expect(denied.status).to.equal(403);
+    expect((await denied.json()).error).to.equal('ORIGIN_NOT_ALLOWED');
+  });
+
+  it('records cosign decisions in the audit trail', async () => {
+    expect((await cosign({ waiveMintFee: true })).status).to.equal(200);
+    expect((await cosign({ qty: 6 })).status).to.equal(403);
+
+    const audit = async (
+      query: string,
+      headers: Record<string, string> = { 'x-admin-key': ADMIN_KEY },
+    ) =>
+      fetch(`${baseUrl}/audit?collection=${cosignable.address}${query}`, {
+        headers,
+      });
+    expect((await audit('', {})).status).to.equal(401);
+
+    const { entries } = await (await audit('')).json();
+    expect(
+      entries.map((entry: { decision: string }) => entry.decision),
+    ).to.have.members(['signed', 'rejected']);
+
+    const waived = await (await audit('&waived=true')).json();
+    expect(waived.entries).to.have.length(1);
+    expect(waived.entries[0]).to.include({
+      collection: cosignable.address.toLowerCase(),
+      chainId: 31337,
+      minter,
+      qty: 1,
+      waiveMintFee: true,
+      decision: 'signed',
+      cosigner: cosigner.address,
+    });
+
+    const rejected = await (await audit('&decision=rejected')).json();
+    expect(rejected.entries).to.have.length(1);
+    expect(rejected.entries[0].reason).to.equal('QTY_EXCEEDS_REQUEST_LIMIT');
+  });
+
+  it('reports health, signer and metrics', async () => {
+    const health = await fetch(`${baseUrl}/health`);
+    expect(health.status).to.equal(200);
+    expect((await health.json()).status).to.equal('ok');
+
+    const signer = await fetch(
+      `${baseUrl}/signer?collection=${cosignable.address}&chainId=31337`,
+    );
+    expect((await signer.json()).cosigner).to.equal(
+      await cosignable.getCosigner(),
+    );
+
+    await cosign();
+    await cosign({ qty: 6 });
+    const metrics = await fetch(
+      `${baseUrl}/metrics?collection=${cosignable.address}`,
+      { headers: { 'x-admin-key': ADMIN_KEY } },
+    );
+    const { collections } = await metrics.json();
+    expect(collections).to.have.length(1);
+    expect(collections[0]).to.include({ signed: 1, rejected: 1, error: 0 });
+  });
+
+  it('exports and imports collection bundles', async () => {
+    const exported = await fetch(`${baseUrl}/admin/export`, {
+      headers: { 'x-admin-key': ADMIN_KEY },
+    });
+    const bundle = await exported.json();
+    expect(bundle.version).to.equal(1);
+    expect(bundle.collections).to.have.length(1);
+    expect(bundle.collections[0]).to.not.have.property('version');
+
+    bundle.collections[0].policy.maxQtyPerRequest = 2;
+    const importBundle = (query: string) =>
+      post(`/admin/import?${query}`, bundle, { 'x-admin-key': ADMIN_KEY });
+
+    const dryRun = await importBundle('dryRun=true');
+    expect(dryRun.status).to.equal(200);
+    const [item] = (await dryRun.json()).items;
+    expect(item.action).to.equal('conflict');
+    expect(item.changes.map((c: { field: string }) => c.field)).to.deep.equal([
+      'policy',
+    ]);
+
+    expect((await importBundle('')).status).to.equal(409);
+    expect((await importBundle('conflict=skip')).status).to.equal(200);
+    expect((await cosign({ qty: 3 })).status).to.equal(200);
+
+    expect((await importBundle('conflict=overwrite')).status).to.equal(200);
+    expect((await cosign({ qty: 3 })).status).to.equal(403);
+  });
+
+  it('applies the caps of the active window', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const res = await fetch(
+      `${baseUrl}/collections/${cosignable.address}/31337`,
+      {
+        method: 'PATCH',
+        headers: { 'x-admin-key': ADMIN_KEY },
+        body: JSON.stringify({
+          windows: [
+            {
+              id: 'allowlist',
+              startTimeUnixSeconds: now - 600,
+              endTimeUnixSeconds: now + 600,
+              maxQtyPerMinter: 3,
+            },
+            {
+              id: 'public',
+              startTimeUnixSeconds: now + 600,
+              endTimeUnixSeconds: now + 1200,
+            },
+          ],
+        }),
+      },
+    );
+    expect(res.status).to.equal(200);
+
+    const first = await cosign({ qty: 2 });
+    expect((await first.json()).windowId).to.equal('allowlist');
+    const second = await cosign({ qty: 2 });
+    expect(second.status).to.equal(403);
+    expect((await second.json()).error).to.equal(
+      'QTY_EXCEEDS_WINDOW_MINTER_LIMIT',
+    );
+  });
+
+  describe('with minter auth', () => {
+    const DOMAIN = 'mint.example.com';
+
+    const siweMessage = (address: string, issuedAt: Date) =>
+      [
+        `${DOMAIN} wants you to sign in with your Ethereum account:`,
+        address,
+        '',
+        `URI: https://${DOMAIN}`,
+        'Version: 1',
+        'Chain ID: 31337',
+        'Nonce: 32891756',
+        `Issued At: ${issuedAt.toISOString()}`,
+      ].join('\n');
+
+    beforeEach(async () => {
+      const res = await fetch(
+        `${baseUrl}/collections/${cosignable.address}/31337`,
+        {
+          method: 'PATCH',
+          headers: { 'x-admin-key': ADMIN_KEY },
+          body: JSON.stringify({
+            minterAuth: { type: 'siwe', domain: DOMAIN },
+          }),
+        },
+      );
+      expect(res.status).to.equal(200);
+    });
+
+    it('requires a message signed by the minter', async () => {
+      const res = await cosign();
+      expect(res.status).to.equal(401);
+      expect((await res.json()).error).to.equal('MINTER_AUTH_REQUIRED');
+    });
+
+    it('cosigns once the minter signed in', async () => {
+      const [, signer] = await ethers.getSigners();
+      const message = siweMessage(minter, new Date());
+      const signature = await signer.signMessage(message);
+
+      const res = await cosign({ auth: { message, signature } });
+      expect(res.status).to.equal(200);
+    });
+
+    it('rejects messages signed by another wallet', async () => {
+      const [, , other] = await ethers.getSigners();
+      const message = siweMessage(minter, new Date());
+      const signature = await other.signMessage(message);
+
+      const res = await cosign({ auth: { message, signature } });
+      expect(res.status).to.equal(401);
+      expect((await res.json()).error).to.equal('INVALID_MINTER_AUTH');
+    });
+
+    it('rejects stale messages', async () => {
+      const [, signer] = await ethers.getSigners();
+      const message = siweMessage(minter, new Date(Date.now() - 3600_000));
+      const signature = await signer.signMessage(message);
+
+      const res = await cosign({ auth: { message, signature } });
+      expect(res.status).to.equal(401);
+      expect((await res.json()).error).to.equal('MINTER_AUTH_EXPIRED');
+    });
+  });
+
+  it('rejects chains the collection is not registered for', async () => {
+    const res = await cosign({ chainId: 1 });
+    expect(res.status).to.equal(403);
+    expect((await res.json()).error).to.equal('CHAIN_NOT_REGISTERED');
+  });
+
+  it('rotates the cosigner once the overlap window ends', async () => {
+    const next = Wallet.createRandom();
+    await restartServer({
+      signers: {
+        default: { type: 'local', privateKey: cosigner.privateKey },
+        next: { type: 'local', privateKey: next.privateKey },
+      },
+    });
+    await post(
+      '/collections',
+      { collectionContract: cosignable.address, chainId: 31337 },
+      { 'x-admin-key': ADMIN_KEY },
+    );
+    const rotate = (body: Record<string, unknown>) =>
+      post(`/collections/${cosignable.address}/31337/rotate-cosigner`, body, {
+        'x-admin-key': ADMIN_KEY,
+      });
+
+    expect((await rotate({})).status).to.equal(400);
+    expect((await rotate({ cosignerKeyId: 'unknown' })).status).to.equal(400);
+
+    const res = await rotate({ cosignerKeyId: 'next', overlapSeconds: 3600 });
+    expect(res.status).to.equal(200);
+    const rotation = await res.json();
+    expect(rotation.cosigner).to.equal(next.address);
+    expect(rotation.previousCosigner).to.equal(cosigner.address);
+
+    // the previous key keeps signing while setCosigner is pending on-chain
+    const during = await (await cosign()).json();
+    expect(during.cosigner).to.equal(cosigner.address);
+    expect(during.nextCosigner).to.equal(next.address);
+    expect(
+      await cosignable.assertValidCosign(
+        minter,
+        1,
+        during.timestamp,
+        during.sig,
+        during.nonce,
+      ),
+    ).to.equal(false);
+
+    await cosignable.setCosigner(next.address);
+    const ended = await patchCollection({
+      cosignerActivatesAt: Math.floor(Date.now() / 1000) - 1,
+    });
+    expect(ended.status).to.equal(200);
+
+    const after = await (await cosign()).json();
+    expect(after.cosigner).to.equal(next.address);
+    expect(after.nextCosigner).to.equal(undefined);
+    expect(
+      await cosignable.assertValidCosign(
+        minter,
+        1,
+        after.timestamp,
+        after.sig,
+        after.nonce,
+      ),
+    ).to.equal(false);
+  });
+
+  it('serves v1 collections on every chain until they are migrated', async () => {
+    const legacy = Wallet.createRandom().address;
+    const kv = createMemoryKV();
+    await kv.put(
+      `collection:v1:${legacy.toLowerCase()}`,
+      JSON.stringify({ collectionContract: legacy.toLowerCase() }),
+    );
+    await restartServer({}, kv);
+
+    expect(
+      (await cosign({ collectionContract: legacy, chainId: 1 })).status,
+    ).to.equal(200);
+
+    const res = await post(
+      '/collections/migrate',
+      { chainIds: [31337] },
+      { 'x-admin-key': ADMIN_KEY },
+    );
+    expect((await res.json()).migrated).to.deep.equal([
+      { collectionContract: legacy, chainId: 31337 },
+    ]);
+    expect((await cosign({ collectionContract: legacy })).status).to.equal(200);
+    const other = await cosign({ collectionContract: legacy, chainId: 1 });
+    expect(other.status).to.equal(403);
+    expect((await other.json()).error).to.equal('CHAIN_NOT_REGISTERED');
+  });
+
+  describe('against an ERC721M', () => {
+    let erc721m: Contract;
+    let rpc: Server;
+    let rpcUrl: string;
+
+    const register = (body: Record<string, unknown> = {}) =>
+      post(
+        '/collections',
+        { collectionContract: erc721m.address, chainId: 31337, ...body },
+        { 'x-admin-key': ADMIN_KEY },
+      );
+
+    const cosignErc721m = (body: Record<string, unknown> = {}) =>
+      cosign({
+        collectionContract: erc721m.address,
+        nonce: undefined,
+        ...body,
+      });
+
+    const setStage = (stage: Record<string, unknown> = {}) =>
+      erc721m.setStages([
+        {
+          price: 0,
+          walletLimit: 0,
+          merkleRoot: ethers.constants.HashZero,
+          maxStageSupply: 0,
+          startTimeUnixSeconds: 0,
+          endTimeUnixSeconds: 2 ** 40,
+          ...stage,
+        },
+      ]);
+
+    const expectIneligible = async (
+      error: string,
+      body: Record<string, unknown> = {},
+    ) => {
+      const res = await cosignErc721m(body);
+      expect(res.status).to.equal(422);
+      expect((await res.json()).error).to.equal(error);
+    };
+
+    beforeEach(async () => {
+      const factory = await ethers.getContractFactory(
+        'contracts/nft/erc721m/ERC721M.sol:ERC721M',
+      );
+      erc721m = await factory.deploy(
+        'Test',
+        'TEST',
+        '',
+        10,
+        0,
+        cosigner.address,
+        300,
+        ethers.constants.AddressZero,
+        cosigner.address,
+        0,
+      );
+      await erc721m.deployed();
+      await setStage();
+
+      rpc = createHardhatRpcServer();
+      rpcUrl = await listen(rpc);
+
+      await restartServer({ rpcUrls: { 31337: rpcUrl } });
+      expect((await register({ eligibilityChecks: true })).status).to.equal(
+        201,
+      );
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => rpc.close(resolve));
+    });
+
+    it('reads the nonce from getCosignNonce when omitted', async () => {
+      const first = await cosignErc721m();
+      expect(first.status).to.equal(200);
+      expect((await first.json()).nonce).to.equal(0);
+
+      // the first signature has not expired, so nonce 0 stays taken
+      const pending = await cosignErc721m();
+      expect(pending.status).to.equal(409);
+      expect((await pending.json()).error).to.equal('NONCE_ALREADY_USED');
+
+      await erc721m.ownerMint(2, minter);
+      const res = await cosignErc721m();
+      expect(res.status).to.equal(200);
+      const { sig, timestamp, nonce } = await res.json();
+      expect(nonce).to.equal(2);
+      expect(
+        await erc721m.assertValidCosign(minter, 1, timestamp, sig, nonce),
+      ).to.equal(false);
+    });
+
+    it('refuses collections that are not mintable', async () => {
+      await erc721m.setMintable(false);
+      await expectIneligible('NOT_MINTABLE');
+    });
+
+    it('refuses when another cosigner is set on-chain', async () => {
+      await erc721m.setCosigner(Wallet.createRandom().address);
+      await expectIneligible('COSIGNER_MISMATCH');
+    });
+
+    it('refuses when no stage is active', async () => {
+      await setStage({ startTimeUnixSeconds: 2 ** 39 });
+      await expectIneligible('NO_ACTIVE_STAGE');
+    });
+
+    it('refuses quantities above the remaining supply', async () => {
+      await erc721m.ownerMint(9, minter);
+      await expectIneligible('NO_SUPPLY_LEFT', { qty: 2 });
+      expect((await cosignErc721m({ qty: 1 })).status).to.equal(200);
+    });
+
+    it('refuses quantities above the stage supply', async () => {
+      await setStage({ maxStageSupply: 2 });
+      await expectIneligible('STAGE_SUPPLY_EXCEEDED', { qty: 3 });
+    });
+
+    it('refuses minters over the wallet limits', async () => {
+      await erc721m.setGlobalWalletLimit(2);
+      await expectIneligible('WALLET_GLOBAL_LIMIT_EXCEEDED', { qty: 3 });
+
+      await erc721m.setGlobalWalletLimit(0);
+      await setStage({ walletLimit: 1 });
+      await expectIneligible('WALLET_STAGE_LIMIT_EXCEEDED', { qty: 2 });
+      expect((await cosignErc721m({ qty: 1 })).status).to.equal(200);
+    });
+
+    it('reports an RPC that cannot be read', async () => {
+      // nothing listens on port 1
+      await restartServer({ rpcUrls: { 31337: 'http://127.0.0.1:1' } });
+      await register({ eligibilityChecks: true });
+
+      const res = await cosignErc721m({ nonce: 0 });
+      expect(res.status).to.equal(502);
+      expect((await res.json()).error).to.equal('ELIGIBILITY_CHECK_FAILED');
+    });
+
+    it('refuses eligibility checks on chains without an RPC URL', async () => {
+      const kv = createMemoryKV();
+      await restartServer({ rpcUrls: { 31337: rpcUrl } }, kv);
+      await register({
+        eligibilityChecks: true,
+        rateLimit: { minter: { capacity: 1, refillPerSecond: 0.001 } },
+      });
+
+      await restartServer({ rpcUrls: {} }, kv);
+      const res = await register({
+        collectionContract: cosignable.address,
+        eligibilityChecks: true,
+      });
+      expect(res.status).to.equal(400);
+
+      // a collection saved before RPC_URLS changed is rejected without
+      // taking the minter's rate limit token
+      const unavailable = await cosignErc721m({ nonce: 0 });
+      expect(unavailable.status).to.equal(422);
+      expect((await unavailable.json()).error).to.equal(
+        'ELIGIBILITY_CHECK_UNAVAILABLE',
+      );
+      await restartServer({ rpcUrls: { 31337: rpcUrl } }, kv);
+      expect((await cosignErc721m()).status).to.equal(200);
+    });
+  });
+});